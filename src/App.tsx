@@ -2,16 +2,28 @@ import React from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { Dashboard } from './pages/Dashboard';
 import { ChainDetails } from './pages/ChainDetails';
+import { Compare } from './pages/Compare';
+import { ValidatorDetails } from './pages/ValidatorDetails';
+import { ValidatorIndex } from './pages/ValidatorIndex';
 import { NotFound } from './pages/NotFound';
+import { ChainRegistryProvider } from './components/ChainRegistryProvider';
+import { DisplayUnitProvider } from './components/DisplayUnitProvider';
 
 function App() {
   return (
-    <Routes>
-      <Route path="/" element={<Dashboard />} />
-      <Route path="/chain/:chainId" element={<ChainDetails />} />
-      <Route path="/404" element={<NotFound />} />
-      <Route path="*" element={<Navigate to="/404" replace />} />
-    </Routes>
+    <ChainRegistryProvider>
+      <DisplayUnitProvider>
+        <Routes>
+          <Route path="/" element={<Dashboard />} />
+          <Route path="/chain/:chainId" element={<ChainDetails />} />
+          <Route path="/chain/:chainId/validator/:nodeId" element={<ValidatorDetails />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/validators" element={<ValidatorIndex />} />
+          <Route path="/404" element={<NotFound />} />
+          <Route path="*" element={<Navigate to="/404" replace />} />
+        </Routes>
+      </DisplayUnitProvider>
+    </ChainRegistryProvider>
   );
 }
 
@@ -1,5 +1,20 @@
-import type { Chain, TVLHistory, TVLHealth, NetworkTPS, TPSHistory, HealthStatus, TeleporterMessageData, TeleporterDailyData } from './types';
+import type { Chain, TVLHistory, TVLHealth, TVLBreakdown, NetworkTPS, TPSHistory, HealthStatus, TeleporterMessageData, TeleporterDailyData, TokenPrice } from './types';
 import { config } from './config';
+import {
+  parseResponse,
+  chainsResponseSchema,
+  tvlHistoryResponseSchema,
+  tvlBreakdownResponseSchema,
+  tvlHealthResponseSchema,
+  tpsHistoryResponseSchema,
+  networkTPSResponseSchema,
+  healthResponseSchema,
+  teleporterMessagesResponseSchema,
+  teleporterDailyHistoryResponseSchema,
+  tokenPricesResponseSchema,
+} from './schemas';
+import { ApiError, isAbortError } from './errors';
+import { loadPersistedEntries, persistEntry } from './persistentCache';
 
 // XSS protection - sanitize strings in API responses
 function sanitizeString(value: string): string {
@@ -41,12 +56,97 @@ function sanitizeResponse(data: any): any {
 }
 
 // Add caching layer for API responses
-const cache = new Map<string, { data: any; timestamp: number }>();
+export interface CacheEntry<T = unknown> {
+  data: T;
+  timestamp: number;
+  duration: number; // How long the entry counts as fresh
+  restored?: boolean; // Loaded from IndexedDB, always revalidated before being trusted
+}
+
+const cache = new Map<string, CacheEntry<any>>();
 const CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
+const PERSIST_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+// How long an endpoint's data counts as fresh, and how long it may be restored after a reload
+interface CachePolicy {
+  duration: number;
+  persistFor: number; // 0 keeps the entry in memory only
+}
+
+const CACHE_POLICIES = {
+  chains: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  tvlHistory: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  tvlHealth: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  tvlBreakdown: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  chainTvlHistory: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  tpsHistory: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  networkTPS: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  health: { duration: 30000, persistFor: 0 }, // Live status, restoring it after a reload would be misleading
+  teleporterMessages: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  teleporterDailyHistory: { duration: CACHE_DURATION, persistFor: PERSIST_DURATION },
+  tokenPrices: { duration: 5 * 60 * 1000, persistFor: PERSIST_DURATION },
+} satisfies Record<string, CachePolicy>;
+
+// Listeners notified whenever a key receives fresh data
+type CacheListener = (entry: CacheEntry) => void;
+const cacheListeners = new Map<string, Set<CacheListener>>();
+
+// Cache keys for each endpoint, shared with the data hooks so they can read cached values synchronously
+export const cacheKeys = {
+  chains: () => 'chains',
+  tvlHistory: (days: number) => `tvl-history-${days}`,
+  tvlHealth: () => 'tvl-health',
+  tvlBreakdown: (days: number) => `tvl-breakdown-${days}`,
+  chainTvlHistory: (chainId: string, days: number) => `chain-tvl-history-${chainId}-${days}`,
+  tpsHistory: (days: number, chainId?: string) => `tps-history-${chainId || 'network'}-${days}`,
+  networkTPS: () => 'network-tps',
+  health: () => 'health-status',
+  teleporterMessages: () => 'teleporter-messages',
+  teleporterDailyHistory: (days: number) => `teleporter-daily-history-${days}`,
+  tokenPrices: (symbols: string[]) => `token-prices-${symbols.join(',')}`,
+};
+
+// Read a cached value without fetching, even if it has expired
+export function peekCache<T>(key: string): CacheEntry<T> | undefined {
+  return cache.get(key);
+}
+
+export function isCacheEntryStale(entry: CacheEntry): boolean {
+  return entry.restored === true || Date.now() - entry.timestamp >= entry.duration;
+}
+
+// Restore entries persisted by a previous visit. Await before the first render so it can paint from cache.
+export async function hydrateCache(): Promise<void> {
+  const entries = await loadPersistedEntries();
+
+  entries.forEach((entry, key) => {
+    if (!cache.has(key)) {
+      cache.set(key, { ...entry, restored: true });
+    }
+  });
+}
+
+export function subscribeToCache(key: string, listener: CacheListener): () => void {
+  const listeners = cacheListeners.get(key) ?? new Set<CacheListener>();
+  listeners.add(listener);
+  cacheListeners.set(key, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      cacheListeners.delete(key);
+    }
+  };
+}
+
+function setCacheEntry(key: string, entry: CacheEntry, persistFor: number) {
+  cache.set(key, entry);
+  cacheListeners.get(key)?.forEach(listener => listener(entry));
+  void persistEntry(key, entry, persistFor);
+}
 
 const BASE_URL = config.apiBaseUrl;
 const API_URL = `${BASE_URL}/api`;
-const EXPLORER_URL = 'https://subnets.avax.network';
 
 const DEFAULT_HEADERS = {
   'Accept': 'application/json',
@@ -100,20 +200,117 @@ const apiRequestTracker = {
   }
 };
 
+// Requests currently on the wire, shared by every caller asking for the same cache key
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+// Start the request for a key, or join the one already in flight
+function getOrStartRequest<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  { duration, persistFor }: CachePolicy
+): InFlightRequest {
+  // An aborted request is only waiting to settle, joining it would just fail
+  const existing = inFlightRequests.get(key);
+  if (existing && !existing.controller.signal.aborted) return existing;
+
+  // Record the request attempt once, however many callers share it
+  apiRequestTracker.recordRequest();
+
+  const controller = new AbortController();
+  const promise = fetcher(controller.signal)
+    .then(data => {
+      // Sanitize the response data to prevent XSS
+      const sanitizedData = sanitizeResponse(data);
+      
+      // Cache the sanitized data
+      setCacheEntry(key, { data: sanitizedData, timestamp: Date.now(), duration }, persistFor);
+      
+      return sanitizedData;
+    })
+    .catch(error => {
+      if (!isAbortError(error)) {
+        console.error(`Failed to fetch ${key}:`, error);
+      }
+      throw error;
+    })
+    .finally(() => {
+      // A newer request may already have taken the key over
+      if (inFlightRequests.get(key) === request) {
+        inFlightRequests.delete(key);
+      }
+    });
+
+  const request: InFlightRequest = { promise, controller, subscribers: 0 };
+  inFlightRequests.set(key, request);
+  return request;
+}
+
+// Wait for a shared request. Aborting only cancels the network request once every subscriber has aborted.
+function subscribe<T>(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<T> {
+  request.subscribers++;
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      request.subscribers--;
+      if (request.subscribers === 0) {
+        request.controller.abort();
+        if (inFlightRequests.get(key) === request) {
+          inFlightRequests.delete(key);
+        }
+      }
+      reject(new ApiError(key, { kind: 'aborted' }));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    request.promise.then(
+      data => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        resolve(data as T);
+      },
+      error => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
 async function fetchWithCache<T>(
   key: string,
-  fetcher: () => Promise<T>,
-  duration: number = CACHE_DURATION
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  policy: CachePolicy,
+  { signal, maxAge }: RequestOptions = {}
 ): Promise<T> {
   const cached = cache.get(key);
   const now = Date.now();
+  const freshFor = maxAge === undefined ? policy.duration : Math.min(policy.duration, maxAge);
 
-  if (cached && now - cached.timestamp < duration) {
+  // Restored entries are only for painting, callers asking for data get a network response
+  if (cached && !cached.restored && now - cached.timestamp < freshFor) {
     return cached.data;
   }
+
+  if (signal?.aborted) {
+    throw new ApiError(key, { kind: 'aborted' });
+  }
   
   // Check if we're rate-limited
-  if (apiRequestTracker.isRateLimited) {
+  if (apiRequestTracker.isRateLimited && !inFlightRequests.has(key)) {
     console.warn(`Request to ${key} was blocked by rate limiting`);
     
     // If we have cached data (even if expired), use it
@@ -122,381 +319,351 @@ async function fetchWithCache<T>(
       return cached.data;
     }
   }
-  
-  // Record the request attempt
-  apiRequestTracker.recordRequest();
 
-  // Fetch fresh data
-  const data = await fetcher();
-  
-  // Sanitize the response data to prevent XSS
-  const sanitizedData = sanitizeResponse(data);
-  
-  // Cache the sanitized data
-  cache.set(key, { data: sanitizedData, timestamp: now });
-  
-  return sanitizedData;
+  // Concurrent callers for the same key share one request
+  const request = getOrStartRequest(key, fetcher, policy);
+  return subscribe<T>(key, request, signal);
 }
 
-async function fetchWithRetry<T>(
-  url: string,
-  options: RequestInit = {},
-  retries: number = 3,
-  backoffFactor: number = 2,
-  timeout: number = 30000 // 30 second timeout
-): Promise<T> {
-  let lastError: Error = new Error('Unknown error occurred');
-  let attempt = 0;
-  
-  // Create a new AbortController for each retry attempt
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-  
+// Retry behaviour for a single endpoint. Timeouts apply to each attempt, not the whole call.
+export interface RetryPolicy {
+  retries: number; // Additional attempts after the first one
+  timeoutMs: number; // Per-attempt timeout
+  backoffFactor: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number; // Give up instead of waiting longer than this for Retry-After
+}
+
+// Options accepted by every get* function
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancel the request, e.g. when a component unmounts
+  retryPolicy?: Partial<RetryPolicy>;
+  maxAge?: number; // Treat cached data older than this as expired, 0 always hits the network
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  timeoutMs: 15000,
+  backoffFactor: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+};
+
+// Per-endpoint overrides of the default policy
+const ENDPOINT_RETRY_POLICIES = {
+  chains: { timeoutMs: 30000 }, // Large payload with every validator
+  health: { retries: 0, timeoutMs: 5000 }, // Polled often, a failure just shows "unknown"
+  networkTPS: { retries: 1 },
+  tpsHistory: {},
+  tvlHistory: {},
+  tvlHealth: { retries: 1 },
+  tvlBreakdown: { timeoutMs: 30000 }, // One row per chain per day
+  chainTvlHistory: {},
+  teleporterMessages: {},
+  teleporterDailyHistory: { timeoutMs: 30000 },
+  tokenPrices: { retries: 1 }, // Only needed for the AVAX and USD display units
+} satisfies Record<string, Partial<RetryPolicy>>;
+
+function resolveRetryPolicy(endpointPolicy: Partial<RetryPolicy>, override?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...endpointPolicy, ...override };
+}
+
+// Only transient statuses are worth retrying: 4xx means the request itself is wrong
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+// Label used to identify an endpoint in errors, e.g. "GET /api/chains"
+function describeEndpoint(url: string): string {
   try {
-    while (attempt < retries) {
-      try {
-        const response = await fetch(url, {
-          ...options,
-          signal: controller.signal,
-          mode: 'cors',
-          credentials: 'omit',
-          headers: {
-            ...DEFAULT_HEADERS,
-            ...options.headers,
-            'Cache-Control': 'no-cache',
-          },
-        });
+    return `GET ${new URL(url).pathname}`;
+  } catch {
+    return `GET ${url.split('?')[0]}`;
+  }
+}
 
-        // Check for HTTP errors
-        if (!response.ok) {
-          if (response.status === 504) {
-            throw new Error('Server timeout - The request took too long to complete');
-          }
-          if (response.status === 429) {
-            throw new Error('Rate limit exceeded - Please try again later');
-          }
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+// Turn anything thrown by fetch into an ApiError
+function toApiError(endpoint: string, error: unknown, timeoutMs: number, callerSignal?: AbortSignal): ApiError {
+  if (error instanceof ApiError) return error;
 
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-          const data = await response.json();
-          return data;
-        }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    // The caller cancelled, otherwise our own per-attempt timer fired
+    return callerSignal?.aborted
+      ? new ApiError(endpoint, { kind: 'aborted' })
+      : new ApiError(endpoint, { kind: 'timeout', timeoutMs });
+  }
 
-        throw new Error('Invalid content type');
-      } catch (error) {
-        lastError = error as Error;
-        
-        // Check if the request was aborted (timeout)
-        if (error instanceof DOMException && error.name === 'AbortError') {
-          throw new Error('Request timeout - The connection to the server timed out');
-        }
-        
-        // Check if it's a CORS error
-        if (error instanceof TypeError && error.message.includes('CORS')) {
-          console.error('CORS error detected:', error);
-          // Return fallback data for CORS errors
-          return getFallbackData<T>();
-        }
-        
-        // Check for network errors (offline)
-        if (error instanceof TypeError && (error.message.includes('Failed to fetch') || error.message.includes('Network request failed'))) {
-          console.error('Network error detected:', error);
-          throw new Error('Network error - Please check your internet connection');
-        }
-        
-        attempt++;
-        
-        if (attempt === retries) break;
-        
-        const delay = Math.min(1000 * Math.pow(backoffFactor, attempt), 10000);
-        const jitter = Math.random() * 1000;
-        await new Promise(resolve => setTimeout(resolve, delay + jitter));
-      }
+  if (error instanceof TypeError) {
+    if (error.message.includes('CORS')) {
+      return new ApiError(endpoint, { kind: 'cors' });
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return new ApiError(endpoint, { kind: 'offline' });
     }
-    
-    // If we've exhausted all retries, throw the last error or return fallback
-    throw lastError;
-  } finally {
-    // Always clear the timeout to prevent memory leaks
-    clearTimeout(timeoutId);
   }
-  
-  // Return fallback data for any error after all retries
-  return getFallbackData<T>();
-}
-
-// Fallback data generator
-function getFallbackData<T>(): T {
-  const fallbackData: Record<string, any> = {
-    Chain: [],
-    TVLHistory: [],
-    TVLHealth: {
-      lastUpdate: new Date().toISOString(),
-      ageInHours: 0,
-      tvl: 0,
-      status: 'stale'
-    },
-    NetworkTPS: {
-      totalTps: 0,
-      chainCount: 0,
-      timestamp: Date.now(),
-      lastUpdate: new Date().toISOString(),
-      dataAge: 0,
-      dataAgeUnit: 'minutes',
-      updatedAt: new Date().toISOString()
-    },
-    TPSHistory: [],
-    HealthStatus: {
-      status: 'unknown',
-      timestamp: Date.now()
-    },
-    TeleporterMessageData: {
-      messages: [],
-      metadata: {
-        totalMessages: 0,
-        startDate: new Date().toISOString(),
-        endDate: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
-    },
-    TeleporterDailyData: []
-  };
 
-  // Use type assertion instead of dynamic property access
-  return fallbackData as unknown as T;
+  return new ApiError(endpoint, { kind: 'network' });
 }
 
-export async function getChains(): Promise<Chain[]> {
-  return fetchWithCache('chains', async () => {
-    try {
-      const data = await fetchWithRetry<any[]>(`${API_URL}/chains`);
-      return data.map(chain => ({
-        ...chain,
-        tps: chain.tps ? {
-          value: Number(chain.tps.value),
-          timestamp: chain.tps.timestamp
-        } : null,
-        validators: chain.validators.map((validator: any) => ({
-          address: validator.nodeId,
-          active: validator.validationStatus === 'active',
-          uptime: validator.uptimePerformance,
-          weight: Number(validator.amountStaked),
-          explorerUrl: chain.explorerUrl ? `${EXPLORER_URL}/validators/${validator.nodeId}` : undefined
-        }))
-      }));
-    } catch (error) {
-      console.error('Chains fetch error:', error);
-      return [];
+// Wait between attempts, resolving early with an abort error if the caller cancels
+function delay(ms: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError(endpoint, { kind: 'aborted' }));
+      return;
     }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ApiError(endpoint, { kind: 'aborted' }));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
-export async function getTVLHistory(days: number = 30): Promise<TVLHistory[]> {
-  return fetchWithCache(`tvl-history-${days}`, async () => {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<{ data: any[] }>(`${API_URL}/tvl/history?days=${days}&t=${timestamp}`);
-      
-      if (!response.data || !Array.isArray(response.data)) {
-        return [];
+// A single attempt with its own timeout, linked to the caller's signal
+async function fetchAttempt(url: string, endpoint: string, timeoutMs: number, signal?: AbortSignal): Promise<unknown> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      mode: 'cors',
+      credentials: 'omit',
+      headers: {
+        ...DEFAULT_HEADERS,
+        'Cache-Control': 'no-cache',
+      },
+    });
+
+    // Check for HTTP errors
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new ApiError(endpoint, {
+          kind: 'rate-limited',
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
       }
+      throw new ApiError(endpoint, { kind: 'http', status: response.status });
+    }
 
-      return response.data
-        .filter(item => item && typeof item.date === 'number' && typeof item.tvl === 'number')
-        .map(item => ({
-          date: Number(item.date),
-          tvl: Number(item.tvl)
-        }))
-        .sort((a, b) => a.date - b.date);
-    } catch (error) {
-      console.error('TVL history fetch error:', error);
-      return [];
+    const contentType = response.headers.get('content-type');
+    if (contentType && contentType.includes('application/json')) {
+      return await response.json();
     }
-  });
-}
 
-export async function getTVLHealth(): Promise<TVLHealth> {
-  return fetchWithCache('tvl-health', async () => {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<TVLHealth>(`${API_URL}/tvl/health?t=${timestamp}`);
-      
-      // Validate the response fields
-      if (!response || typeof response.lastUpdate !== 'string' || typeof response.tvl !== 'number') {
-        throw new Error('Invalid TVL health response format');
-      }
+    throw new ApiError(endpoint, {
+      kind: 'schema',
+      issues: [{ path: '(content-type)', message: `Expected application/json, received ${contentType || 'nothing'}` }],
+    });
+  } catch (error) {
+    throw toApiError(endpoint, error, timeoutMs, signal);
+  } finally {
+    // Always clear the timer and listener to prevent memory leaks
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
 
-      return {
-        lastUpdate: response.lastUpdate,
-        ageInHours: Number(response.ageInHours) || 0,
-        tvl: Number(response.tvl),
-        status: response.status === 'healthy' ? 'healthy' : 'stale'
-      };
-    } catch (error) {
-      console.error('TVL health fetch error:', error);
-      return {
-        lastUpdate: new Date().toISOString(),
-        ageInHours: 0,
-        tvl: 0,
-        status: 'stale'
-      };
+// How long to wait before the next attempt, or null if the error should not be retried
+function getRetryDelay(error: ApiError, attempt: number, policy: RetryPolicy): number | null {
+  switch (error.details.kind) {
+    case 'rate-limited': {
+      const { retryAfterMs } = error.details;
+      if (retryAfterMs === null) break;
+      return retryAfterMs <= policy.maxRetryAfterMs ? retryAfterMs : null;
     }
-  });
+    case 'http':
+      if (!isRetryableStatus(error.details.status)) return null;
+      break;
+    case 'timeout':
+    case 'network':
+      break;
+    default:
+      // Cancelled, blocked, offline and malformed responses will not succeed on retry
+      return null;
+  }
+
+  const backoff = Math.min(policy.baseDelayMs * Math.pow(policy.backoffFactor, attempt), policy.maxDelayMs);
+  const jitter = Math.random() * policy.baseDelayMs;
+  return backoff + jitter;
 }
 
-export async function getTPSHistory(days: number = 7, chainId?: string): Promise<TPSHistory[]> {
-  return fetchWithCache(`tps-history-${chainId || 'network'}-${days}`, async () => {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const url = chainId 
-        ? `${API_URL}/chains/${chainId}/tps/history?t=${timestamp}`
-        : `${API_URL}/tps/network/history?days=${days}&t=${timestamp}`;
-
-      const response = await fetchWithRetry<{
-        success: boolean;
-        data: Array<any>;
-      }>(url);
-
-      if (!response.success || !Array.isArray(response.data)) {
-        return [];
-      }
+async function fetchWithRetry(
+  url: string,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const endpoint = describeEndpoint(url);
 
-      return response.data
-        .filter(item => item && typeof item.timestamp === 'number' && (typeof item.value === 'number' || typeof item.totalTps === 'number'))
-        .map(item => ({
-          timestamp: Number(item.timestamp),
-          totalTps: Number(item.value || item.totalTps || 0),
-          chainCount: Number(item.chainCount || 1),
-          date: item.timestamp
-        }))
-        .sort((a, b) => a.timestamp - b.timestamp);
-    } catch (error) {
-      console.error('TPS history fetch error:', error);
-      return [];
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new ApiError(endpoint, { kind: 'aborted' });
     }
-  });
-}
 
-export async function getNetworkTPS(): Promise<NetworkTPS> {
-  return fetchWithCache('network-tps', async () => {
     try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<{
-        success: boolean;
-        data: NetworkTPS;
-      }>(`${API_URL}/tps/network/latest?t=${timestamp}`);
-
-      if (!response.success || !response.data) {
-        throw new Error('Invalid network TPS response format');
+      return await fetchAttempt(url, endpoint, policy.timeoutMs, signal);
+    } catch (error) {
+      const apiError = toApiError(endpoint, error, policy.timeoutMs, signal);
+      const retryDelay = attempt < policy.retries ? getRetryDelay(apiError, attempt, policy) : null;
+
+      if (retryDelay === null) {
+        throw apiError;
       }
 
-      return {
-        totalTps: Number(response.data.totalTps) || 0,
-        chainCount: Number(response.data.chainCount) || 0,
-        timestamp: Number(response.data.timestamp) || Date.now(),
-        lastUpdate: response.data.lastUpdate || new Date().toISOString(),
-        dataAge: Number(response.data.dataAge) || 0,
-        dataAgeUnit: response.data.dataAgeUnit || 'minutes',
-        updatedAt: response.data.updatedAt || new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('Network TPS fetch error:', error);
-      return {
-        totalTps: 0,
-        chainCount: 0,
-        timestamp: Date.now(),
-        lastUpdate: new Date().toISOString(),
-        dataAge: 0,
-        dataAgeUnit: 'minutes',
-        updatedAt: new Date().toISOString()
-      };
+      console.warn(`${apiError.message}, retrying in ${Math.round(retryDelay)}ms (attempt ${attempt + 2}/${policy.retries + 1})`);
+      await delay(retryDelay, endpoint, signal);
     }
-  });
+  }
 }
 
-export async function getHealth(): Promise<HealthStatus> {
-  return fetchWithCache('health-status', async () => {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<any>(`${BASE_URL}/health?t=${timestamp}`);
-      
-      // The health endpoint returns the status directly, not wrapped in a data object
-      if (typeof response?.status === 'string') {
-        return {
-          status: response.status,
-          timestamp: response.currentTime ? new Date(response.currentTime).getTime() : Date.now()
-        };
-      }
-      
-      return {
-        status: 'unknown',
-        timestamp: Date.now()
-      };
-    } catch (error) {
-      console.error('Health status fetch error:', error);
-      return {
-        status: 'unknown',
-        timestamp: Date.now()
-      };
-    }
-  }, 30000); // Cache for 30 seconds
+export async function getChains(options: RequestOptions = {}): Promise<Chain[]> {
+  return fetchWithCache(cacheKeys.chains(), async (signal) => {
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.chains, options.retryPolicy);
+    const data = await fetchWithRetry(`${API_URL}/chains`, policy, signal);
+    return parseResponse('GET /api/chains', chainsResponseSchema, data);
+  }, CACHE_POLICIES.chains, options);
 }
 
-export async function getTeleporterMessages(): Promise<TeleporterMessageData> {
-  return fetchWithCache('teleporter-messages', async () => {
-    try {
-      const response = await fetchWithRetry<any>(`${API_URL}/teleporter/messages/daily-count`);
-      
-      if (!response || !Array.isArray(response.messages)) {
-        throw new Error('Invalid Teleporter message data format');
-      }
-      
-      return {
-        messages: response.messages.map((msg: any) => ({
-          source: msg.source,
-          target: msg.target,
-          count: Number(msg.count)
-        })),
-        metadata: {
-          totalMessages: response.metadata?.totalMessages || 
-            response.messages.reduce((sum: number, msg: any) => sum + Number(msg.count), 0),
-          startDate: response.metadata?.startDate || new Date().toISOString(),
-          endDate: response.metadata?.endDate || new Date().toISOString(),
-          updatedAt: response.metadata?.updatedAt || new Date().toISOString()
-        }
-      };
-    } catch (error) {
-      console.error('Teleporter messages fetch error:', error);
-      return {
-        messages: [],
-        metadata: {
-          totalMessages: 0,
-          startDate: new Date().toISOString(),
-          endDate: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      };
-    }
-  }, 15 * 60 * 1000); // Cache for 15 minutes
+export async function getTVLHistory(days: number = 30, options: RequestOptions = {}): Promise<TVLHistory[]> {
+  return fetchWithCache(cacheKeys.tvlHistory(days), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.tvlHistory, options.retryPolicy);
+    const response = await fetchWithRetry(`${API_URL}/tvl/history?days=${days}&t=${timestamp}`, policy, signal);
+    return parseResponse('GET /api/tvl/history', tvlHistoryResponseSchema, response);
+  }, CACHE_POLICIES.tvlHistory, options);
+}
+
+export async function getTVLBreakdown(days: number = 30, options: RequestOptions = {}): Promise<TVLBreakdown[]> {
+  return fetchWithCache(cacheKeys.tvlBreakdown(days), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.tvlBreakdown, options.retryPolicy);
+    const response = await fetchWithRetry(`${API_URL}/tvl/chains/history?days=${days}&t=${timestamp}`, policy, signal);
+    return parseResponse('GET /api/tvl/chains/history', tvlBreakdownResponseSchema, response);
+  }, CACHE_POLICIES.tvlBreakdown, options);
+}
+
+export async function getChainTVLHistory(
+  chainId: string,
+  days: number = 30,
+  options: RequestOptions = {}
+): Promise<TVLHistory[]> {
+  return fetchWithCache(cacheKeys.chainTvlHistory(chainId, days), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.chainTvlHistory, options.retryPolicy);
+    const response = await fetchWithRetry(
+      `${API_URL}/chains/${chainId}/tvl/history?days=${days}&t=${timestamp}`,
+      policy,
+      signal
+    );
+    return parseResponse('GET /api/chains/:chainId/tvl/history', tvlHistoryResponseSchema, response);
+  }, CACHE_POLICIES.chainTvlHistory, options);
 }
 
-export async function getTeleporterDailyHistory(days: number = 30): Promise<TeleporterDailyData[]> {
-  return fetchWithCache(`teleporter-daily-history-${days}`, async () => {
+export async function getTVLHealth(options: RequestOptions = {}): Promise<TVLHealth> {
+  return fetchWithCache(cacheKeys.tvlHealth(), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.tvlHealth, options.retryPolicy);
+    const response = await fetchWithRetry(`${API_URL}/tvl/health?t=${timestamp}`, policy, signal);
+    return parseResponse('GET /api/tvl/health', tvlHealthResponseSchema, response);
+  }, CACHE_POLICIES.tvlHealth, options);
+}
+
+export async function getTPSHistory(days: number = 7, chainId?: string, options: RequestOptions = {}): Promise<TPSHistory[]> {
+  return fetchWithCache(cacheKeys.tpsHistory(days, chainId), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const url = chainId
+      ? `${API_URL}/chains/${chainId}/tps/history?days=${days}&t=${timestamp}`
+      : `${API_URL}/tps/network/history?days=${days}&t=${timestamp}`;
+    const endpoint = chainId ? 'GET /api/chains/:chainId/tps/history' : 'GET /api/tps/network/history';
+
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.tpsHistory, options.retryPolicy);
+    const response = await fetchWithRetry(url, policy, signal);
+    return parseResponse(endpoint, tpsHistoryResponseSchema, response);
+  }, CACHE_POLICIES.tpsHistory, options);
+}
+
+export async function getNetworkTPS(options: RequestOptions = {}): Promise<NetworkTPS> {
+  return fetchWithCache(cacheKeys.networkTPS(), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.networkTPS, options.retryPolicy);
+    const response = await fetchWithRetry(`${API_URL}/tps/network/latest?t=${timestamp}`, policy, signal);
+    return parseResponse('GET /api/tps/network/latest', networkTPSResponseSchema, response);
+  }, CACHE_POLICIES.networkTPS, options);
+}
+
+export async function getHealth(options: RequestOptions = {}): Promise<HealthStatus> {
+  return fetchWithCache(cacheKeys.health(), async (signal) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.health, options.retryPolicy);
+    const response = await fetchWithRetry(`${BASE_URL}/health?t=${timestamp}`, policy, signal);
+    return parseResponse('GET /health', healthResponseSchema, response);
+  }, CACHE_POLICIES.health, options);
+}
+
+export async function getTeleporterMessages(options: RequestOptions = {}): Promise<TeleporterMessageData> {
+  return fetchWithCache(cacheKeys.teleporterMessages(), async (signal) => {
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.teleporterMessages, options.retryPolicy);
+    const response = await fetchWithRetry(`${API_URL}/teleporter/messages/daily-count`, policy, signal);
+    return parseResponse('GET /api/teleporter/messages/daily-count', teleporterMessagesResponseSchema, response);
+  }, CACHE_POLICIES.teleporterMessages, options);
+}
+
+export async function getTeleporterDailyHistory(days: number = 30, options: RequestOptions = {}): Promise<TeleporterDailyData[]> {
+  return fetchWithCache(cacheKeys.teleporterDailyHistory(days), async (signal) => {
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.teleporterDailyHistory, options.retryPolicy);
+    const response = await fetchWithRetry(
+      `${API_URL}/teleporter/messages/historical-daily?days=${days}`,
+      policy,
+      signal
+    );
+    return parseResponse('GET /api/teleporter/messages/historical-daily', teleporterDailyHistoryResponseSchema, response);
+  }, CACHE_POLICIES.teleporterDailyHistory, options);
+}
+
+/**
+ * USD prices from the configured price source
+ * @param symbols Upper-case token symbols, sorted so the cache key is stable
+ */
+export async function getTokenPrices(symbols: string[], options: RequestOptions = {}): Promise<TokenPrice[]> {
+  return fetchWithCache(cacheKeys.tokenPrices(symbols), async (signal) => {
+    const policy = resolveRetryPolicy(ENDPOINT_RETRY_POLICIES.tokenPrices, options.retryPolicy);
+    let url: URL;
     try {
-      const response = await fetchWithRetry<{ data: TeleporterDailyData[] }>(
-        `${API_URL}/teleporter/messages/historical-daily?days=${days}`
-      );
-      
-      if (!response.data || !Array.isArray(response.data)) {
-        throw new Error('Invalid Teleporter daily history data format');
-      }
-      
-      return response.data;
-    } catch (error) {
-      console.error('Teleporter daily history fetch error:', error);
-      return [];
+      url = new URL(config.priceApiUrl);
+    } catch {
+      // A malformed VITE_PRICE_API_URL, report it like any other unreachable endpoint
+      throw new ApiError('GET /api/prices', { kind: 'network' });
     }
-  }, 15 * 60 * 1000); // Cache for 15 minutes
-}
\ No newline at end of file
+    url.searchParams.set('symbols', symbols.join(','));
+    const response = await fetchWithRetry(url.toString(), policy, signal);
+    return parseResponse('GET /api/prices', tokenPricesResponseSchema, response);
+  }, CACHE_POLICIES.tokenPrices, options);
+}
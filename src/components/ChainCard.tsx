@@ -4,12 +4,21 @@ import { format } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { GlowingEffect } from './ui/glowing-effect';
 import { cn } from '../lib/utils';
+import { WatchlistToggle } from './WatchlistToggle';
+
+// Checkbox state when the card can be picked for /compare
+export interface ChainCardSelection {
+  selected: boolean;
+  disabled: boolean; // The comparison is full
+  onToggle: () => void;
+}
 
 interface ChainCardProps {
   chain: Chain;
+  selection?: ChainCardSelection;
 }
 
-export function ChainCard({ chain }: ChainCardProps) {
+export function ChainCard({ chain, selection }: ChainCardProps) {
   const navigate = useNavigate();
 
   const formatTPS = (tps: Chain['tps']) => {
@@ -97,6 +106,26 @@ export function ChainCard({ chain }: ChainCardProps) {
                   )}
                 </div>
               </div>
+
+              <div className="flex items-center gap-1">
+                {selection && (
+                  <label
+                    onClick={(e) => e.stopPropagation()}
+                    title={selection.disabled ? 'Up to four chains can be compared' : `Compare ${chain.chainName}`}
+                    className={cn('p-1 rounded-md hover:bg-white/10', selection.disabled ? 'cursor-not-allowed' : 'cursor-pointer')}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selection.selected}
+                      disabled={selection.disabled}
+                      onChange={selection.onToggle}
+                      aria-label={`Compare ${chain.chainName}`}
+                      className="w-4 h-4 rounded border-gray-400 text-blue-600 focus:ring-blue-500 disabled:opacity-40"
+                    />
+                  </label>
+                )}
+                <WatchlistToggle chainId={chain.chainId} chainName={chain.chainName} className="hover:bg-white/10" />
+              </div>
             </div>
 
             {/* Stats row */}
@@ -0,0 +1,33 @@
+import { ReactNode, useMemo } from 'react';
+import { useChains } from '../hooks/useApiQuery';
+import {
+  buildChainRegistry,
+  ChainRegistryContext,
+  ChainRegistryContextValue,
+  EMPTY_CHAIN_REGISTRY,
+} from '../lib/chainRegistry';
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+
+// Fetches /api/chains once for the whole app and shares the lookups with every page
+export function ChainRegistryProvider({ children }: { children: ReactNode }) {
+  const { data, error, isLoading, isRefreshing, isStale, lastUpdated, refetch } = useChains({
+    refreshInterval: REFRESH_INTERVAL,
+  });
+
+  const registry = useMemo(
+    () => (data ? buildChainRegistry(data) : EMPTY_CHAIN_REGISTRY),
+    [data]
+  );
+
+  const value = useMemo<ChainRegistryContextValue>(
+    () => ({ registry, error, isLoading, isRefreshing, isStale, lastUpdated, refetch }),
+    [registry, error, isLoading, isRefreshing, isStale, lastUpdated, refetch]
+  );
+
+  return (
+    <ChainRegistryContext.Provider value={value}>
+      {children}
+    </ChainRegistryContext.Provider>
+  );
+}
@@ -0,0 +1,212 @@
+import { useMemo, useRef } from 'react';
+import { Line } from 'react-chartjs-2';
+import { format } from 'date-fns';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Filler
+} from 'chart.js';
+import { DollarSign, RefreshCw } from 'lucide-react';
+import { Chain } from '../types';
+import { useTheme } from '../hooks/useTheme';
+import { useChainTVLHistory, useTVLBreakdown } from '../hooks/useApiQuery';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { formatScaled } from '../lib/displayUnit';
+import { getChainTVLRank } from '../lib/tvl';
+import { describeApiError, isApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { RefreshIndicator } from './RefreshIndicator';
+import { ChartExportMenu } from './ChartExportMenu';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Filler);
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+const HISTORY_DAYS = 30;
+
+// Chains the TVL indexer doesn't track answer 404, which is not worth an error state
+function isMissingTVL(error: unknown): boolean {
+  return isApiError(error) && error.details.kind === 'http' && error.details.status === 404;
+}
+
+interface ChainTVLSectionProps {
+  chain: Chain;
+}
+
+export function ChainTVLSection({ chain }: ChainTVLSectionProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const scale = useDisplayUnit().usdScale(chain.networkToken?.symbol);
+  const historyQuery = useChainTVLHistory(chain.chainId, HISTORY_DAYS, { refreshInterval: REFRESH_INTERVAL });
+  // Same request as the dashboard's share chart, so usually served from cache
+  const breakdownQuery = useTVLBreakdown(HISTORY_DAYS, { refreshInterval: REFRESH_INTERVAL });
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const history = useMemo(() => historyQuery.data ?? [], [historyQuery.data]);
+  const rank = useMemo(
+    () => getChainTVLRank(breakdownQuery.data ?? [], chain.chainId),
+    [breakdownQuery.data, chain.chainId]
+  );
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <DollarSign className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Total Value Locked</h3>
+    </div>
+  );
+
+  if (historyQuery.isLoading) {
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+        {title}
+        <div className="h-48 flex items-center justify-center">
+          <RefreshCw className="h-8 w-8 text-blue-500 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!history.length) {
+    const error = historyQuery.error;
+
+    if (!error || isMissingTVL(error)) {
+      return (
+        <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+          {title}
+          <p className="text-gray-500 dark:text-gray-400 mt-2">No TVL is tracked for this chain.</p>
+        </div>
+      );
+    }
+
+    const { kind, title: errorTitle, message } = describeApiError(error, 'Unable to load TVL for this chain.');
+
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+        {title}
+        <div className="h-48 flex flex-col items-center justify-center">
+          <ErrorIcon kind={kind} className="h-10 w-10 text-yellow-500 mb-3" />
+          <p className="font-medium text-gray-900 dark:text-white mb-1">{errorTitle}</p>
+          <p className="text-gray-600 dark:text-gray-300 text-center mb-4 break-words">{message}</p>
+          <button
+            onClick={historyQuery.refetch}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+          >
+            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const first = history[0];
+  const latest = history[history.length - 1];
+  const change = first.tvl > 0 ? ((latest.tvl - first.tvl) / first.tvl) * 100 : null;
+
+  const tiles = [
+    { label: 'Current TVL', value: formatScaled(latest.tvl * scale.factor, scale, { compact: true }) },
+    { label: 'Rank', value: rank ? `#${rank.rank} of ${rank.chainCount}` : 'N/A' },
+    { label: 'Share of Total', value: rank ? `${(rank.share * 100).toFixed(2)}%` : 'N/A' },
+    {
+      label: `${HISTORY_DAYS}d Change`,
+      value: change !== null ? `${change > 0 ? '+' : ''}${change.toFixed(2)}%` : 'N/A',
+      className: change === null || change === 0
+        ? 'text-gray-900 dark:text-white'
+        : change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400',
+    },
+  ];
+
+  const data = {
+    labels: history.map(item => format(new Date(item.date * 1000), 'MMM d')),
+    datasets: [
+      {
+        label: 'TVL',
+        data: history.map(item => item.tvl * scale.factor),
+        fill: true,
+        borderColor: isDark ? 'rgb(96, 165, 250)' : 'rgb(59, 130, 246)',
+        backgroundColor: isDark ? 'rgba(96, 165, 250, 0.2)' : 'rgba(59, 130, 246, 0.1)',
+        borderWidth: isDark ? 2 : 1.5,
+        tension: 0.4,
+        pointRadius: 2,
+        pointHoverRadius: 5,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        padding: 12,
+        callbacks: {
+          label: (context: { parsed: { y: number } }) => `TVL: ${formatScaled(context.parsed.y, scale)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', font: { size: 11 } },
+      },
+      y: {
+        beginAtZero: true,
+        grid: { color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)' },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          font: { size: 11 },
+          callback: (value: number | string) => formatScaled(Number(value), scale, { compact: true }),
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          {title}
+          <RefreshIndicator
+            isRefreshing={historyQuery.isRefreshing}
+            isStale={historyQuery.isStale}
+            lastUpdated={historyQuery.lastUpdated}
+            className="text-gray-400 dark:text-gray-500"
+          />
+        </div>
+        <ChartExportMenu
+          name={`${chain.chainName}-tvl`}
+          targetRef={plotRef}
+          getRows={() => history.map(item => ({ date: new Date(item.date * 1000).toISOString(), tvlUsd: item.tvl }))}
+        />
+      </div>
+
+      {historyQuery.error != null && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mb-4">
+          {describeApiError(historyQuery.error, 'Failed to refresh TVL').title}, showing cached data
+        </p>
+      )}
+
+      <dl className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
+            <dt className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</dt>
+            <dd className={`text-xl font-semibold ${tile.className ?? 'text-gray-900 dark:text-white'}`}>{tile.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div ref={plotRef} className="h-56">
+        <Line data={data} options={options} />
+      </div>
+    </div>
+  );
+}
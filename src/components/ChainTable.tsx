@@ -0,0 +1,191 @@
+import { useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, Server } from 'lucide-react';
+import { Chain } from '../types';
+import { ChainFilters, ChainSortKey, defaultDirection, getTotalStake, getTpsBand } from '../lib/chainFilters';
+import { DEFAULT_UPTIME_THRESHOLD, getWeightedUptime } from '../lib/uptime';
+import { formatStake } from '../lib/displayUnit';
+import { getStakeDecimals } from '../lib/stake';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { cn } from '../lib/utils';
+import { WatchlistToggle } from './WatchlistToggle';
+
+interface ChainTableProps {
+  chains: Chain[];
+  sort: ChainSortKey;
+  direction: ChainFilters['direction'];
+  onSortChange: (update: Pick<ChainFilters, 'sort' | 'direction'>) => void;
+}
+
+const ROW_HEIGHT = 52;
+const HEADER_HEIGHT = 40;
+const MAX_HEIGHT = 640;
+
+// Shared by the header and every row so the columns line up
+const GRID_COLUMNS = 'grid grid-cols-[minmax(12rem,2fr)_minmax(9rem,1.5fr)_5rem_6rem_8rem_6rem_8rem_9rem] gap-4 items-center px-4';
+
+const COLUMNS: { label: string; sort?: ChainSortKey; align?: 'right' }[] = [
+  { label: 'Chain', sort: 'name' },
+  { label: 'Chain ID' },
+  { label: 'TPS', sort: 'tps', align: 'right' },
+  { label: 'Validators', sort: 'validators', align: 'right' },
+  { label: 'Total Stake', sort: 'stake', align: 'right' },
+  { label: 'Uptime', sort: 'uptime', align: 'right' },
+  { label: 'Token' },
+  { label: 'Last Update', sort: 'updated' },
+];
+
+const TPS_COLORS = {
+  high: 'text-green-600 dark:text-green-400',
+  medium: 'text-yellow-600 dark:text-yellow-400',
+  low: 'text-red-600 dark:text-red-400',
+  none: 'text-gray-400 dark:text-gray-500',
+};
+
+// Dense alternative to the ChainCard grid, only the visible rows are rendered
+export function ChainTable({ chains, sort, direction, onSortChange }: ChainTableProps) {
+  const navigate = useNavigate();
+  const { tokenScale } = useDisplayUnit();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const virtualizer = useVirtualizer({
+    count: chains.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    // Rows start below the sticky header inside the scroll container
+    scrollMargin: HEADER_HEIGHT,
+    overscan: 10,
+  });
+
+  const handleSort = (column: ChainSortKey) => {
+    if (column === sort) {
+      onSortChange({ sort, direction: direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange({ sort: column, direction: defaultDirection(column) });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900/80 rounded-lg shadow-md border border-gray-200 dark:border-gray-800 overflow-hidden">
+      <div
+        ref={scrollRef}
+        className="overflow-auto"
+        style={{ maxHeight: MAX_HEIGHT }}
+        role="table"
+        aria-rowcount={chains.length}
+      >
+        <div className="min-w-[1056px]">
+          {/* Sticky header */}
+          <div
+            role="row"
+            style={{ height: HEADER_HEIGHT }}
+            className={cn(
+              GRID_COLUMNS,
+              'sticky top-0 z-10 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800',
+              'text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400'
+            )}
+          >
+            {COLUMNS.map(column => {
+              const isSorted = column.sort === sort;
+              const SortIcon = direction === 'asc' ? ArrowUp : ArrowDown;
+
+              return (
+                <div
+                  key={column.label}
+                  role="columnheader"
+                  aria-sort={isSorted ? (direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                  className={cn(column.align === 'right' && 'text-right')}
+                >
+                  {column.sort ? (
+                    <button
+                      onClick={() => handleSort(column.sort!)}
+                      className={cn(
+                        'inline-flex items-center gap-1 uppercase hover:text-gray-900 dark:hover:text-white',
+                        isSorted && 'text-gray-900 dark:text-white'
+                      )}
+                    >
+                      {column.label}
+                      {isSorted && <SortIcon className="w-3 h-3" />}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Virtualised rows */}
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(item => {
+              const chain = chains[item.index];
+              const tpsBand = getTpsBand(chain);
+              const uptime = getWeightedUptime(chain.validators);
+
+              return (
+                <div
+                  key={chain.chainId}
+                  role="row"
+                  aria-rowindex={item.index + 1}
+                  onClick={() => navigate(`/chain/${chain.chainId}`)}
+                  className={cn(
+                    GRID_COLUMNS,
+                    'absolute top-0 left-0 w-full cursor-pointer text-sm',
+                    'border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/60'
+                  )}
+                  style={{ height: item.size, transform: `translateY(${item.start - HEADER_HEIGHT}px)` }}
+                >
+                  <div role="cell" className="flex items-center gap-2 min-w-0">
+                    {chain.chainLogoUri ? (
+                      <img src={chain.chainLogoUri} alt="" className="w-6 h-6 rounded flex-shrink-0" />
+                    ) : (
+                      <Server className="w-6 h-6 p-1 text-blue-500 flex-shrink-0" />
+                    )}
+                    <span className="font-medium text-gray-900 dark:text-white truncate">{chain.chainName}</span>
+                    <WatchlistToggle chainId={chain.chainId} chainName={chain.chainName} className="ml-auto" />
+                  </div>
+                  <div role="cell" className="font-mono text-xs text-gray-500 dark:text-gray-400 truncate" title={chain.chainId}>
+                    {chain.chainId}
+                  </div>
+                  <div role="cell" className={cn('text-right font-medium', TPS_COLORS[tpsBand])}>
+                    {chain.tps ? chain.tps.value.toFixed(2) : 'N/A'}
+                  </div>
+                  <div role="cell" className="text-right text-gray-900 dark:text-white">
+                    {chain.validators.length}
+                  </div>
+                  <div role="cell" className="text-right text-gray-900 dark:text-white">
+                    {chain.validators.length
+                      ? formatStake(getTotalStake(chain), tokenScale(chain.networkToken?.symbol), { compact: true }, getStakeDecimals(chain))
+                      : '—'}
+                  </div>
+                  <div
+                    role="cell"
+                    className={cn(
+                      'text-right',
+                      uptime === null
+                        ? 'text-gray-400 dark:text-gray-500'
+                        : uptime < DEFAULT_UPTIME_THRESHOLD
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-gray-900 dark:text-white'
+                    )}
+                    title="Stake-weighted uptime"
+                  >
+                    {uptime !== null ? `${uptime.toFixed(1)}%` : '—'}
+                  </div>
+                  <div role="cell" className="text-gray-500 dark:text-gray-400 truncate">
+                    {chain.networkToken?.symbol ?? '—'}
+                  </div>
+                  <div role="cell" className="text-gray-500 dark:text-gray-400">
+                    {chain.tps?.timestamp ? format(new Date(chain.tps.timestamp * 1000), 'MMM d, HH:mm') : '—'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, LayoutGrid, List, LucideIcon, Search, X } from 'lucide-react';
+import {
+  ChainFilters,
+  ChainSortKey,
+  ChainView,
+  DEFAULT_CHAIN_FILTERS,
+  defaultDirection,
+  hasActiveChainFilters,
+  TokenFilter,
+  TpsBand,
+} from '../lib/chainFilters';
+import { cn } from '../lib/utils';
+
+interface ChainToolbarProps {
+  filters: ChainFilters;
+  onChange: (update: Partial<ChainFilters>) => void;
+  resultCount: number;
+  totalCount: number;
+}
+
+const selectClassName = 'py-2 pl-3 pr-8 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+const TPS_OPTIONS: { value: TpsBand; label: string }[] = [
+  { value: 'all', label: 'Any TPS' },
+  { value: 'high', label: 'TPS ≥ 1' },
+  { value: 'medium', label: 'TPS 0.1 – 1' },
+  { value: 'low', label: 'TPS < 0.1' },
+  { value: 'none', label: 'No TPS data' },
+];
+
+const VALIDATOR_OPTIONS = [
+  { value: 'active', label: 'Active chains' },
+  { value: 'all', label: 'All chains' },
+  { value: '5', label: '5+ validators' },
+  { value: '20', label: '20+ validators' },
+  { value: '100', label: '100+ validators' },
+];
+
+const TOKEN_OPTIONS: { value: TokenFilter; label: string }[] = [
+  { value: 'all', label: 'Any token' },
+  { value: 'with', label: 'Has token' },
+  { value: 'without', label: 'No token' },
+];
+
+const SORT_OPTIONS: { value: ChainSortKey; label: string }[] = [
+  { value: 'default', label: 'Default order' },
+  { value: 'name', label: 'Name' },
+  { value: 'tps', label: 'TPS' },
+  { value: 'validators', label: 'Validators' },
+  { value: 'stake', label: 'Total stake' },
+  { value: 'uptime', label: 'Uptime' },
+  { value: 'updated', label: 'Last update' },
+];
+
+const VIEW_OPTIONS: { value: ChainView; label: string; icon: LucideIcon }[] = [
+  { value: 'grid', label: 'Card view', icon: LayoutGrid },
+  { value: 'table', label: 'Table view', icon: List },
+];
+
+export function ChainToolbar({ filters, onChange, resultCount, totalCount }: ChainToolbarProps) {
+  const validatorValue = String(filters.validators);
+  // Keep a minimum typed into the URL selectable even if it isn't one of the presets
+  const validatorOptions = VALIDATOR_OPTIONS.some(option => option.value === validatorValue)
+    ? VALIDATOR_OPTIONS
+    : [...VALIDATOR_OPTIONS, { value: validatorValue, label: `${validatorValue}+ validators` }];
+
+  const DirectionIcon = filters.direction === 'asc' ? ArrowUpNarrowWide : ArrowDownWideNarrow;
+
+  return (
+    <div className="flex flex-col gap-3 mb-6">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+          </div>
+          <input
+            type="text"
+            placeholder="Search by name, chain ID or token..."
+            value={filters.search}
+            onChange={(e) => onChange({ search: e.target.value })}
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md leading-5 bg-white dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            aria-label="Filter by TPS"
+            value={filters.tps}
+            onChange={(e) => onChange({ tps: e.target.value as TpsBand })}
+            className={selectClassName}
+          >
+            {TPS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <select
+            aria-label="Filter by validator count"
+            value={validatorValue}
+            onChange={(e) => {
+              const { value } = e.target;
+              onChange({ validators: value === 'active' || value === 'all' ? value : Number(value) });
+            }}
+            className={selectClassName}
+          >
+            {validatorOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <select
+            aria-label="Filter by network token"
+            value={filters.token}
+            onChange={(e) => onChange({ token: e.target.value as TokenFilter })}
+            className={selectClassName}
+          >
+            {TOKEN_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <div className="flex">
+            <select
+              aria-label="Sort chains"
+              value={filters.sort}
+              onChange={(e) => {
+                const sort = e.target.value as ChainSortKey;
+                onChange({ sort, direction: defaultDirection(sort) });
+              }}
+              className={`${selectClassName} rounded-r-none`}
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange({ direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+              title={filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+              className="px-2 border border-l-0 border-gray-300 dark:border-gray-700 rounded-r-md bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              <DirectionIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex rounded-md border border-gray-300 dark:border-gray-700 overflow-hidden">
+            {VIEW_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => onChange({ view: value })}
+                title={label}
+                aria-pressed={filters.view === value}
+                className={cn(
+                  'px-2.5 transition-colors',
+                  filters.view === value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                )}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+        <span>Showing {resultCount} of {totalCount} chains</span>
+        {hasActiveChainFilters(filters) && (
+          <button
+            onClick={() => onChange({
+              search: DEFAULT_CHAIN_FILTERS.search,
+              tps: DEFAULT_CHAIN_FILTERS.tps,
+              validators: DEFAULT_CHAIN_FILTERS.validators,
+              token: DEFAULT_CHAIN_FILTERS.token,
+            })}
+            className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <X className="w-3 h-3" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { Download } from 'lucide-react';
+import { useTheme } from '../hooks/useTheme';
+import {
+  ChartExportFormat,
+  EXPORT_BACKGROUNDS,
+  exportCanvasAsPng,
+  exportRows,
+  exportSvg,
+  exportSvgAsPng,
+  getExportFileName,
+  serializeSvg,
+} from '../lib/chartExport';
+import { cn } from '../lib/utils';
+
+const FORMAT_LABELS: Record<ChartExportFormat, string> = {
+  png: 'PNG image',
+  svg: 'SVG vector',
+  csv: 'CSV data',
+  json: 'JSON data',
+};
+
+interface ChartExportMenuProps {
+  name: string; // File name stem, the date and extension are added
+  targetRef: RefObject<HTMLElement>; // Element containing the chart's <canvas> or <svg>
+  getRows: () => Record<string, unknown>[]; // The series as currently shown
+  formats?: ChartExportFormat[];
+  renderSvg?: (background: string) => string | null; // For charts that aren't a single <svg>
+  background?: string; // Defaults to the card background for the current theme
+  className?: string;
+}
+
+export function ChartExportMenu({
+  name,
+  targetRef,
+  getRows,
+  formats = ['png', 'csv', 'json'],
+  renderSvg,
+  background,
+  className,
+}: ChartExportMenuProps) {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside clicks and Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const fill = background ?? (theme === 'dark' ? EXPORT_BACKGROUNDS.dark : EXPORT_BACKGROUNDS.light);
+
+  const getSvgMarkup = () => {
+    if (renderSvg) return renderSvg(fill);
+    const svg = targetRef.current?.querySelector('svg');
+    return svg ? serializeSvg(svg, fill) : null;
+  };
+
+  const handleExport = async (type: ChartExportFormat) => {
+    setIsOpen(false);
+    const fileName = getExportFileName(name, type);
+
+    try {
+      switch (type) {
+        case 'png': {
+          const canvas = targetRef.current?.querySelector('canvas');
+          if (canvas) {
+            await exportCanvasAsPng(canvas, fileName, fill);
+          } else {
+            const markup = getSvgMarkup();
+            if (markup) await exportSvgAsPng(markup, fileName);
+          }
+          break;
+        }
+        case 'svg': {
+          const markup = getSvgMarkup();
+          if (markup) exportSvg(markup, fileName);
+          break;
+        }
+        case 'csv':
+        case 'json':
+          exportRows(getRows(), fileName, type);
+          break;
+      }
+    } catch (err) {
+      console.error('Failed to export chart:', err);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Export chart"
+        className={cn(
+          'p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-dark-700 transition-colors',
+          className
+        )}
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-1 z-30 w-36 py-1 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-dark-800 shadow-lg"
+        >
+          {formats.map(type => (
+            <button
+              key={type}
+              role="menuitem"
+              onClick={() => handleExport(type)}
+              className="block w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-dark-700"
+            >
+              {FORMAT_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useRef } from 'react';
+import { Line } from 'react-chartjs-2';
+import { format } from 'date-fns';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { TrendingUp, RefreshCw } from 'lucide-react';
+import { Chain } from '../types';
+import { useTheme } from '../hooks/useTheme';
+import { useTPSHistories } from '../hooks/useApiQuery';
+import { getCompareColor } from '../lib/compare';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { RefreshIndicator } from './RefreshIndicator';
+import { ChartExportMenu } from './ChartExportMenu';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+const HISTORY_DAYS = 7;
+
+interface CompareTPSChartProps {
+  chains: Chain[];
+}
+
+// Overlays the TPS history of every compared chain on one time axis
+export function CompareTPSChart({ chains }: CompareTPSChartProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const historiesQuery = useTPSHistories(
+    HISTORY_DAYS,
+    chains.map(chain => chain.chainId),
+    { refreshInterval: REFRESH_INTERVAL }
+  );
+  const histories = historiesQuery.data;
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const header = (
+    <div className="flex items-center gap-2 mb-6">
+      <TrendingUp className="w-5 h-5 text-blue-500" />
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Transactions Per Second</h3>
+      <RefreshIndicator
+        isRefreshing={historiesQuery.isRefreshing}
+        isStale={historiesQuery.isStale}
+        lastUpdated={historiesQuery.lastUpdated}
+        className="text-gray-400 dark:text-gray-500"
+      />
+      {histories && (
+        <div className="ml-auto">
+          <ChartExportMenu
+            name="compare-tps"
+            targetRef={plotRef}
+            getRows={() => chains.flatMap((chain, index) => (histories[index] ?? []).map(point => ({
+              chainId: chain.chainId,
+              chainName: chain.chainName,
+              timestamp: new Date(point.timestamp * 1000).toISOString(),
+              tps: point.totalTps,
+            })))}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  if (historiesQuery.isLoading) {
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+        {header}
+        <div className="h-64 flex flex-col items-center justify-center">
+          <RefreshCw className="h-12 w-12 text-blue-500 animate-spin mb-4" />
+          <p className="text-gray-600 dark:text-gray-300">Loading TPS data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!histories) {
+    const errorState = describeApiError(historiesQuery.error, 'Failed to fetch TPS data');
+
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+        {header}
+        <div className="h-64 flex flex-col items-center justify-center">
+          <ErrorIcon kind={errorState.kind} className="h-12 w-12 text-yellow-500 mb-4" />
+          <p className="font-medium text-gray-900 dark:text-white mb-1">{errorState.title}</p>
+          <p className="text-gray-600 dark:text-gray-300 text-center mb-4 break-words">{errorState.message}</p>
+          <button
+            onClick={historiesQuery.refetch}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const missing = chains.filter((_, index) => !histories[index]?.length);
+
+  const data = {
+    datasets: chains.map((chain, index) => ({
+      label: chain.chainName,
+      // TPS timestamps are in seconds
+      data: (histories[index] ?? []).map(point => ({ x: point.timestamp * 1000, y: point.totalTps })),
+      borderColor: getCompareColor(index, isDark),
+      backgroundColor: getCompareColor(index, isDark),
+      borderWidth: 2,
+      tension: 0.4,
+      pointRadius: 2,
+      pointHoverRadius: 5,
+    })),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'nearest' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: {
+          color: isDark ? '#e2e8f0' : '#1e293b',
+          usePointStyle: true,
+        },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        padding: 12,
+        boxPadding: 4,
+        callbacks: {
+          title: (items: { parsed: { x: number } }[]) =>
+            items.length ? format(new Date(items[0].parsed.x), 'MMM d, h:mm a') : '',
+          label: (context: { dataset: { label?: string }; parsed: { y: number } }) =>
+            `${context.dataset.label}: ${context.parsed.y.toFixed(2)} TPS`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        grid: {
+          display: false,
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          maxTicksLimit: 8,
+          callback: (value: number | string) => format(new Date(Number(value)), 'MMM d'),
+        },
+      },
+      y: {
+        beginAtZero: true,
+        grid: {
+          color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)',
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          callback: (value: number | string) => `${Number(value).toFixed(1)} TPS`,
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+      {header}
+      {missing.length > 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 -mt-4 mb-4">
+          No TPS history for {missing.map(chain => chain.chainName).join(', ')}
+        </p>
+      )}
+      <div ref={plotRef} className="h-72">
+        <Line data={data} options={options} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useRef } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip, Legend } from 'chart.js';
+import { Clock } from 'lucide-react';
+import { Chain } from '../types';
+import { useTheme } from '../hooks/useTheme';
+import { getCompareColor, getUptimeDistribution, UPTIME_BUCKETS } from '../lib/compare';
+import { ChartExportMenu } from './ChartExportMenu';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+const LABELS = [...UPTIME_BUCKETS.map(bucket => bucket.label), 'No data'];
+
+interface CompareUptimeChartProps {
+  chains: Chain[];
+}
+
+// Share of each chain's validators per uptime bucket, so chains of different sizes line up
+export function CompareUptimeChart({ chains }: CompareUptimeChartProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const distributions = useMemo(
+    () => chains.map(chain => getUptimeDistribution(chain.validators)),
+    [chains]
+  );
+
+  const data = {
+    labels: LABELS,
+    datasets: chains.map((chain, index) => {
+      const total = chain.validators.length;
+      return {
+        label: chain.chainName,
+        data: distributions[index].map(count => (total ? (count / total) * 100 : 0)),
+        backgroundColor: getCompareColor(index, isDark),
+        borderRadius: 4,
+      };
+    }),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: {
+          color: isDark ? '#e2e8f0' : '#1e293b',
+          usePointStyle: true,
+        },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        padding: 12,
+        boxPadding: 4,
+        callbacks: {
+          label: (context: { datasetIndex: number; dataIndex: number; parsed: { y: number }; dataset: { label?: string } }) => {
+            const count = distributions[context.datasetIndex][context.dataIndex];
+            return `${context.dataset.label}: ${count} validators (${context.parsed.y.toFixed(1)}%)`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: {
+          display: false,
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+        },
+      },
+      y: {
+        beginAtZero: true,
+        max: 100,
+        grid: {
+          color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)',
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          callback: (value: number | string) => `${value}%`,
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Clock className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Validator Uptime</h3>
+        <div className="ml-auto">
+          <ChartExportMenu
+            name="compare-uptime"
+            targetRef={plotRef}
+            getRows={() => chains.flatMap((chain, index) => distributions[index].map((count, bucket) => ({
+              chainId: chain.chainId,
+              chainName: chain.chainName,
+              bucket: LABELS[bucket],
+              validators: count,
+              sharePercent: chain.validators.length ? (count / chain.validators.length) * 100 : 0,
+            })))}
+          />
+        </div>
+      </div>
+      <div ref={plotRef} className="h-72">
+        <Bar data={data} options={options} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, Server } from 'lucide-react';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { DecentralizationMetrics, getDecentralizationMetrics } from '../lib/decentralization';
+import { cn } from '../lib/utils';
+
+type LeaderboardMetric = 'nakamoto33' | 'nakamoto50' | 'gini' | 'hhi' | 'top5';
+
+interface MetricColumn {
+  key: LeaderboardMetric;
+  label: string;
+  hint: string;
+  value: (metrics: DecentralizationMetrics) => number;
+  format: (value: number) => string;
+  higherIsBetter: boolean;
+}
+
+const COLUMNS: MetricColumn[] = [
+  {
+    key: 'nakamoto33',
+    label: 'Nakamoto 33%',
+    hint: 'Validators needed for more than a third of the weight',
+    value: metrics => metrics.nakamoto33,
+    format: value => value.toLocaleString(),
+    higherIsBetter: true,
+  },
+  {
+    key: 'nakamoto50',
+    label: 'Nakamoto 50%',
+    hint: 'Validators needed for more than half of the weight',
+    value: metrics => metrics.nakamoto50,
+    format: value => value.toLocaleString(),
+    higherIsBetter: true,
+  },
+  {
+    key: 'gini',
+    label: 'Gini',
+    hint: 'Stake inequality, lower is more even',
+    value: metrics => metrics.gini,
+    format: value => value.toFixed(3),
+    higherIsBetter: false,
+  },
+  {
+    key: 'hhi',
+    label: 'HHI',
+    hint: 'Herfindahl-Hirschman index, lower is less concentrated',
+    value: metrics => metrics.hhi,
+    format: value => Math.round(value).toLocaleString(),
+    higherIsBetter: false,
+  },
+  {
+    key: 'top5',
+    label: 'Top 5 Share',
+    hint: 'Weight held by the five largest validators',
+    value: metrics => metrics.topShares[5],
+    format: value => `${(value * 100).toFixed(1)}%`,
+    higherIsBetter: false,
+  },
+];
+
+// Rows shown before "Show all"
+const COLLAPSED_ROWS = 10;
+
+// Chains ranked from most to least decentralised by the selected metric
+export function DecentralizationLeaderboard() {
+  const { registry } = useChainRegistry();
+  const [metric, setMetric] = useState<LeaderboardMetric>('nakamoto33');
+  const [showAll, setShowAll] = useState(false);
+
+  const entries = useMemo(
+    () => registry.chains.flatMap(chain => {
+      const metrics = getDecentralizationMetrics(chain.validators);
+      return metrics ? [{ chain, metrics }] : [];
+    }),
+    [registry]
+  );
+
+  const column = COLUMNS.find(c => c.key === metric) ?? COLUMNS[0];
+  const ranked = useMemo(() => {
+    const direction = column.higherIsBetter ? -1 : 1;
+    return [...entries].sort((a, b) =>
+      (column.value(a.metrics) - column.value(b.metrics)) * direction ||
+      b.metrics.validatorCount - a.metrics.validatorCount
+    );
+  }, [entries, column]);
+
+  if (!entries.length) {
+    return (
+      <p className="text-center text-gray-500 dark:text-gray-400 py-6">
+        No chains report staked validators yet.
+      </p>
+    );
+  }
+
+  const rows = showAll ? ranked : ranked.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-dark-800/50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-12">#</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Chain</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Validators</th>
+              {COLUMNS.map(c => (
+                <th key={c.key} className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider" title={c.hint}>
+                  <button
+                    onClick={() => setMetric(c.key)}
+                    className={cn(
+                      'inline-flex items-center gap-1 uppercase hover:text-gray-900 dark:hover:text-white',
+                      c.key === metric ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'
+                    )}
+                  >
+                    {c.label}
+                    {c.key === metric && <ArrowDown className="w-3 h-3" />}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700/50">
+            {rows.map(({ chain, metrics }, index) => (
+              <tr key={chain.chainId} className="hover:bg-gray-50 dark:hover:bg-dark-700/40">
+                <td className="px-4 py-3 text-gray-500 dark:text-gray-400">{index + 1}</td>
+                <td className="px-4 py-3">
+                  <Link
+                    to={`/chain/${chain.chainId}`}
+                    className="inline-flex items-center gap-2 font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    {chain.chainLogoUri ? (
+                      <img src={chain.chainLogoUri} alt="" className="w-5 h-5 rounded" />
+                    ) : (
+                      <Server className="w-5 h-5 text-blue-500" />
+                    )}
+                    {chain.chainName}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 text-right text-gray-500 dark:text-gray-400">{metrics.validatorCount}</td>
+                {COLUMNS.map(c => (
+                  <td
+                    key={c.key}
+                    className={cn(
+                      'px-4 py-3 text-right',
+                      c.key === metric ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'
+                    )}
+                  >
+                    {c.format(c.value(metrics))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {ranked.length > COLLAPSED_ROWS && (
+        <div className="px-4 py-3 text-center border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => setShowAll(prev => !prev)}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
+          >
+            {showAll ? 'Show top 10' : `Show all ${ranked.length} chains`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
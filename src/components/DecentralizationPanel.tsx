@@ -0,0 +1,84 @@
+import { useMemo, useRef } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Validator } from '../types';
+import { getDecentralizationMetrics, TOP_N } from '../lib/decentralization';
+import { LorenzCurveChart } from './LorenzCurveChart';
+import { ChartExportMenu } from './ChartExportMenu';
+
+interface DecentralizationPanelProps {
+  validators: Validator[];
+}
+
+export function DecentralizationPanel({ validators }: DecentralizationPanelProps) {
+  const metrics = useMemo(() => getDecentralizationMetrics(validators), [validators]);
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  if (!metrics) {
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Decentralisation</h3>
+        <p className="text-gray-500 dark:text-gray-400">No staked validators to measure.</p>
+      </div>
+    );
+  }
+
+  const tiles = [
+    {
+      label: 'Nakamoto (33%)',
+      value: metrics.nakamoto33.toLocaleString(),
+      hint: 'Fewest validators that together hold more than a third of the weight',
+    },
+    {
+      label: 'Nakamoto (50%)',
+      value: metrics.nakamoto50.toLocaleString(),
+      hint: 'Fewest validators that together hold more than half of the weight',
+    },
+    {
+      label: 'Gini Coefficient',
+      value: metrics.gini.toFixed(3),
+      hint: '0 when every validator has the same stake, approaching 1 as stake concentrates',
+    },
+    {
+      label: 'HHI',
+      value: Math.round(metrics.hhi).toLocaleString(),
+      hint: 'Herfindahl-Hirschman index, 10,000 means a single validator holds everything',
+    },
+    ...TOP_N.map(n => ({
+      label: n === 1 ? 'Largest Validator' : `Top ${n} Share`,
+      value: `${(metrics.topShares[n] * 100).toFixed(1)}%`,
+      hint: `Share of the weight held by the ${n === 1 ? 'largest validator' : `${n} largest validators`}`,
+    })),
+  ];
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Decentralisation</h3>
+        <div className="ml-auto">
+          <ChartExportMenu
+            name="lorenz-curve"
+            targetRef={plotRef}
+            getRows={() => metrics.lorenz.map(point => ({
+              validatorsPercent: point.population * 100,
+              stakePercent: point.stake * 100,
+            }))}
+          />
+        </div>
+      </div>
+      <div className="flex flex-col lg:flex-row gap-6">
+        <dl className="grid grid-cols-2 gap-4 lg:w-2/5 content-start">
+          {tiles.map(tile => (
+            <div key={tile.label} className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4" title={tile.hint}>
+              <dt className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</dt>
+              <dd className="text-xl font-semibold text-gray-900 dark:text-white">{tile.value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div ref={plotRef} className="lg:w-3/5 h-[340px]">
+          <LorenzCurveChart points={metrics.lorenz} />
+        </div>
+      </div>
+    </div>
+  );
+}
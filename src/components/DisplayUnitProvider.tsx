@@ -0,0 +1,62 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { useTokenPrices } from '../hooks/useApiQuery';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import {
+  DisplayUnit,
+  DisplayUnitContext,
+  DisplayUnitContextValue,
+  getTokenScale,
+  getUsdScale,
+  readDisplayUnit,
+  TokenPrices,
+  writeDisplayUnit,
+} from '../lib/displayUnit';
+
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+
+// Selected display unit for token amounts and TVL, shared by every page and kept across reloads
+export function DisplayUnitProvider({ children }: { children: ReactNode }) {
+  const { registry } = useChainRegistry();
+  const [unit, setUnitState] = useState<DisplayUnit>(readDisplayUnit);
+
+  // Every network token on the dashboard plus AVAX, which the AVAX unit converts through
+  const symbols = useMemo(() => {
+    const set = new Set(['AVAX']);
+    registry.chains.forEach(chain => {
+      if (chain.networkToken?.symbol) set.add(chain.networkToken.symbol.toUpperCase());
+    });
+    return Array.from(set).sort();
+  }, [registry]);
+
+  // Prices are only fetched once a unit that needs them is selected
+  const pricesQuery = useTokenPrices(symbols, {
+    refreshInterval: REFRESH_INTERVAL,
+    enabled: unit !== 'native',
+  });
+
+  const prices = useMemo<TokenPrices>(
+    () => Object.fromEntries((pricesQuery.data ?? []).map(price => [price.symbol, price.usd])),
+    [pricesQuery.data]
+  );
+
+  const setUnit = useCallback((next: DisplayUnit) => {
+    setUnitState(next);
+    writeDisplayUnit(next);
+  }, []);
+
+  const value = useMemo<DisplayUnitContextValue>(() => ({
+    unit,
+    setUnit,
+    prices,
+    isLoadingPrices: unit !== 'native' && pricesQuery.isLoading,
+    pricesError: pricesQuery.error,
+    tokenScale: symbol => getTokenScale(symbol, unit, prices),
+    usdScale: symbol => getUsdScale(symbol, unit, prices),
+  }), [unit, setUnit, prices, pricesQuery.isLoading, pricesQuery.error]);
+
+  return (
+    <DisplayUnitContext.Provider value={value}>
+      {children}
+    </DisplayUnitContext.Provider>
+  );
+}
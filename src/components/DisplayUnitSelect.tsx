@@ -0,0 +1,38 @@
+import { AlertTriangle } from 'lucide-react';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { DISPLAY_UNITS, DisplayUnit } from '../lib/displayUnit';
+import { describeApiError } from '../errors';
+
+// Global unit for stake and TVL values, sits next to the theme toggle in every header
+export function DisplayUnitSelect() {
+  const { unit, setUnit, prices, pricesError, isLoadingPrices } = useDisplayUnit();
+
+  // Without prices the scales fall back to native amounts, say so rather than silently ignoring the choice
+  const pricesMissing = unit !== 'native' && !isLoadingPrices && !Object.keys(prices).length;
+  const warning = pricesMissing
+    ? pricesError
+      ? `${describeApiError(pricesError, 'Prices are unavailable').title}, showing native amounts`
+      : 'No prices available, showing native amounts'
+    : null;
+
+  return (
+    <div className="inline-flex items-center gap-1.5">
+      {warning && (
+        <span title={warning} aria-label={warning}>
+          <AlertTriangle className="w-4 h-4 text-amber-500" />
+        </span>
+      )}
+      <select
+        aria-label="Display unit"
+        title="Unit for stake and TVL values"
+        value={unit}
+        onChange={(e) => setUnit(e.target.value as DisplayUnit)}
+        className="py-1 pl-2 pr-7 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {DISPLAY_UNITS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
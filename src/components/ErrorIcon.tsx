@@ -0,0 +1,26 @@
+import { AlertTriangle, Clock, FileWarning, ServerCrash, ShieldOff, WifiOff } from 'lucide-react';
+import { ErrorDescription } from '../errors';
+
+interface ErrorIconProps {
+  kind: ErrorDescription['kind'];
+  className?: string;
+}
+
+export function ErrorIcon({ kind, className }: ErrorIconProps) {
+  switch (kind) {
+    case 'timeout':
+    case 'rate-limited':
+      return <Clock className={className} />;
+    case 'offline':
+    case 'network':
+      return <WifiOff className={className} />;
+    case 'http':
+      return <ServerCrash className={className} />;
+    case 'cors':
+      return <ShieldOff className={className} />;
+    case 'schema':
+      return <FileWarning className={className} />;
+    default:
+      return <AlertTriangle className={className} />;
+  }
+}
@@ -0,0 +1,68 @@
+import { ArrowDownRight, ArrowUpRight, LucideIcon, Minus } from 'lucide-react';
+import { MetricDelta } from '../lib/metrics';
+import { cn } from '../lib/utils';
+
+interface KpiDelta {
+  label: string;
+  delta: MetricDelta | null;
+}
+
+interface KpiTileProps {
+  icon: LucideIcon;
+  label: string;
+  value: string | null; // null while loading or unavailable
+  deltas: KpiDelta[];
+  formatChange?: (change: number) => string; // Used when there is no previous value to compute a percentage
+}
+
+function DeltaBadge({ label, delta, formatChange }: KpiDelta & { formatChange: (change: number) => string }) {
+  if (!delta) {
+    return (
+      <span className="text-xs text-gray-400 dark:text-gray-500" title={`No data from ${label} ago yet`}>
+        {label} —
+      </span>
+    );
+  }
+
+  const Icon = delta.change > 0 ? ArrowUpRight : delta.change < 0 ? ArrowDownRight : Minus;
+  const text = delta.percent !== null
+    ? `${Math.abs(delta.percent).toFixed(1)}%`
+    : formatChange(Math.abs(delta.change));
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 text-xs font-medium',
+        delta.change > 0 && 'text-green-600 dark:text-green-400',
+        delta.change < 0 && 'text-red-600 dark:text-red-400',
+        delta.change === 0 && 'text-gray-500 dark:text-gray-400'
+      )}
+      title={`Previously ${delta.previous.toLocaleString()}`}
+    >
+      <span className="text-gray-400 dark:text-gray-500 font-normal mr-0.5">{label}</span>
+      <Icon className="w-3 h-3" />
+      {text}
+    </span>
+  );
+}
+
+export function KpiTile({ icon: Icon, label, value, deltas, formatChange = String }: KpiTileProps) {
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Icon className="w-4 h-4 text-blue-500" />
+        <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
+      </div>
+      {value !== null ? (
+        <p className="text-2xl font-bold text-gray-900 dark:text-white">{value}</p>
+      ) : (
+        <div className="h-8 w-24 rounded bg-gray-200 dark:bg-gray-700 animate-pulse" />
+      )}
+      <div className="flex flex-wrap gap-3 mt-2">
+        {deltas.map(({ label: deltaLabel, delta }) => (
+          <DeltaBadge key={deltaLabel} label={deltaLabel} delta={delta} formatChange={formatChange} />
+        ))}
+      </div>
+    </div>
+  );
+}
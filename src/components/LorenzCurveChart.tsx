@@ -0,0 +1,114 @@
+import { Line } from 'react-chartjs-2';
+import { Chart as ChartJS, LinearScale, PointElement, LineElement, Tooltip, Legend, Filler } from 'chart.js';
+import { LorenzPoint } from '../lib/decentralization';
+import { useTheme } from '../hooks/useTheme';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend, Filler);
+
+interface LorenzCurveChartProps {
+  points: LorenzPoint[];
+}
+
+const toPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// The further the curve sags below the diagonal, the more concentrated the stake
+export function LorenzCurveChart({ points }: LorenzCurveChartProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+
+  const data = {
+    datasets: [
+      {
+        label: 'Stake held',
+        data: points.map(point => ({ x: point.population * 100, y: point.stake * 100 })),
+        borderColor: isDark ? 'rgb(129, 140, 248)' : 'rgb(99, 102, 241)',
+        backgroundColor: isDark ? 'rgba(129, 140, 248, 0.2)' : 'rgba(99, 102, 241, 0.1)',
+        fill: 'origin' as const,
+        borderWidth: 2,
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        tension: 0,
+      },
+      {
+        label: 'Perfect equality',
+        data: [{ x: 0, y: 0 }, { x: 100, y: 100 }],
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.6)' : 'rgba(100, 116, 139, 0.6)',
+        borderDash: [6, 4],
+        borderWidth: 1.5,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        fill: false,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'nearest' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: {
+          color: isDark ? '#e2e8f0' : '#1e293b',
+          usePointStyle: true,
+        },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        padding: 12,
+        // Only the curve has meaningful hover values
+        filter: (item: { datasetIndex: number }) => item.datasetIndex === 0,
+        callbacks: {
+          title: () => '',
+          label: (context: { parsed: { x: number; y: number } }) =>
+            `Smallest ${context.parsed.x.toFixed(0)}% of validators hold ${context.parsed.y.toFixed(1)}% of stake`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        max: 100,
+        title: {
+          display: true,
+          text: 'Validators, smallest first',
+          color: isDark ? '#94a3b8' : '#64748b',
+        },
+        grid: {
+          color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)',
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          callback: (value: number | string) => toPercent(Number(value) / 100),
+        },
+      },
+      y: {
+        min: 0,
+        max: 100,
+        title: {
+          display: true,
+          text: 'Cumulative stake',
+          color: isDark ? '#94a3b8' : '#64748b',
+        },
+        grid: {
+          color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)',
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          callback: (value: number | string) => toPercent(Number(value) / 100),
+        },
+      },
+    },
+  };
+
+  return <Line data={data} options={options} />;
+}
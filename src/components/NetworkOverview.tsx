@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Activity, DollarSign, LayoutGrid, MessageSquare, Server } from 'lucide-react';
+import {
+  useNetworkTPS,
+  useTPSHistory,
+  useTVLHealth,
+  useTVLHistory,
+  useTeleporterDailyHistory,
+  useTeleporterMessages,
+} from '../hooks/useApiQuery';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { formatScaled } from '../lib/displayUnit';
+import { computeDelta, DAY_MS, MetricPoint, recordSnapshot, WEEK_MS } from '../lib/metrics';
+import { KpiTile } from './KpiTile';
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+// One extra day so the latest day's total can be compared with the same day last week
+const MESSAGE_HISTORY_DAYS = 8;
+
+// Skeleton while loading, N/A once the request has failed
+function displayValue(value: number | undefined, isLoading: boolean, format: (value: number) => string): string | null {
+  if (value !== undefined) return format(value);
+  return isLoading ? null : 'N/A';
+}
+
+// 24h and 7d deltas for a tile, compared against `current` when the headline comes from another endpoint
+function deltasFor(points: MetricPoint[], current?: number) {
+  return [
+    { label: '24h', delta: computeDelta(points, DAY_MS, current) },
+    { label: '7d', delta: computeDelta(points, WEEK_MS, current) },
+  ];
+}
+
+export function NetworkOverview() {
+  const { registry, isLoading: chainsLoading } = useChainRegistry();
+  const tvlScale = useDisplayUnit().usdScale();
+  const networkTPS = useNetworkTPS({ refreshInterval: REFRESH_INTERVAL });
+  const tpsHistory = useTPSHistory(7, undefined, { refreshInterval: REFRESH_INTERVAL });
+  const tvlHealth = useTVLHealth({ refreshInterval: REFRESH_INTERVAL });
+  const tvlHistory = useTVLHistory(30, { refreshInterval: REFRESH_INTERVAL });
+  const messages = useTeleporterMessages({ refreshInterval: REFRESH_INTERVAL });
+  const messageHistory = useTeleporterDailyHistory(MESSAGE_HISTORY_DAYS, { refreshInterval: REFRESH_INTERVAL });
+
+  // TPS and TVL history timestamps are in seconds
+  const tpsPoints = useMemo(
+    () => (tpsHistory.data ?? []).map(point => ({ timestamp: point.timestamp * 1000, value: point.totalTps })),
+    [tpsHistory.data]
+  );
+
+  const tvlPoints = useMemo(
+    () => (tvlHistory.data ?? []).map(point => ({ timestamp: point.date * 1000, value: point.tvl })),
+    [tvlHistory.data]
+  );
+
+  const messagePoints = useMemo(
+    () => (messageHistory.data ?? [])
+      .map(day => ({ timestamp: Date.parse(day.date), value: day.totalMessages }))
+      .filter(point => Number.isFinite(point.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp),
+    [messageHistory.data]
+  );
+
+  const chainCount = registry.activeChains.length;
+  const validatorCount = useMemo(
+    () => registry.chains.reduce((sum, chain) => sum + chain.validators.length, 0),
+    [registry]
+  );
+
+  // The API has no history for these, so they are sampled in the browser
+  const [chainPoints, setChainPoints] = useState<MetricPoint[]>([]);
+  const [validatorPoints, setValidatorPoints] = useState<MetricPoint[]>([]);
+
+  useEffect(() => {
+    if (!registry.chains.length) return;
+    setChainPoints(recordSnapshot('chainCount', chainCount));
+    setValidatorPoints(recordSnapshot('validatorCount', validatorCount));
+  }, [registry, chainCount, validatorCount]);
+
+  const currentTps = networkTPS.data?.totalTps ?? tpsPoints[tpsPoints.length - 1]?.value;
+  const currentTvl = tvlHealth.data?.tvl ?? tvlPoints[tvlPoints.length - 1]?.value;
+  const currentMessages = messages.data?.metadata.totalMessages;
+  const hasChains = registry.chains.length > 0;
+  const formatCount = (value: number) => value.toLocaleString();
+  // TVL is reported in USD
+  const formatTvl = (value: number) => formatScaled(value * tvlScale.factor, tvlScale, { compact: true });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+      <KpiTile
+        icon={Activity}
+        label="Network TPS"
+        value={displayValue(currentTps, networkTPS.isLoading || tpsHistory.isLoading, value => value.toFixed(2))}
+        deltas={deltasFor(tpsPoints, currentTps)}
+        formatChange={change => change.toFixed(2)}
+      />
+      <KpiTile
+        icon={LayoutGrid}
+        label="Active Chains"
+        value={displayValue(hasChains ? chainCount : undefined, chainsLoading, formatCount)}
+        deltas={deltasFor(chainPoints)}
+        formatChange={formatCount}
+      />
+      <KpiTile
+        icon={DollarSign}
+        label="Total TVL"
+        value={displayValue(currentTvl, tvlHealth.isLoading || tvlHistory.isLoading, formatTvl)}
+        deltas={deltasFor(tvlPoints, currentTvl)}
+        formatChange={formatTvl}
+      />
+      {/* The headline is a rolling 24h count, the deltas compare whole days so they only move when a day closes */}
+      <KpiTile
+        icon={MessageSquare}
+        label="Teleporter Messages (24h)"
+        value={displayValue(currentMessages, messages.isLoading, formatCount)}
+        deltas={deltasFor(messagePoints)}
+        formatChange={formatCount}
+      />
+      <KpiTile
+        icon={Server}
+        label="Total Validators"
+        value={displayValue(hasChains ? validatorCount : undefined, chainsLoading, formatCount)}
+        deltas={deltasFor(validatorPoints)}
+        formatChange={formatCount}
+      />
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { getChains } from '../api';
 import { Chain } from '../types';
-import { Server, AlertTriangle, RefreshCw, Zap } from 'lucide-react';
+import { Server, RefreshCw, Zap } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { GlowingEffect } from './ui/glowing-effect';
 import { cn } from '../lib/utils';
+import { describeApiError, ErrorDescription } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { ChartExportMenu } from './ChartExportMenu';
+import { EXPORT_BACKGROUNDS } from '../lib/chartExport';
 
 interface NodePosition {
   x: number;
@@ -42,9 +46,15 @@ const BULLET_SPAWN_RATE = 0.9;
 
 export function NetworkTopologyGraph() {
   const navigate = useNavigate();
-  const [chains, setChains] = useState<Chain[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { registry, isLoading: loading, error: queryError, refetch } = useChainRegistry();
+  const chains = registry.activeChains;
+  const error: ErrorDescription | null = useMemo(() => {
+    if (chains.length > 0) return null;
+    if (queryError) return describeApiError(queryError, 'Failed to load network data');
+    return registry.chains.length > 0
+      ? { kind: 'unknown', title: 'No active chains', message: 'No chains with validators available' }
+      : { kind: 'unknown', title: 'No chains', message: 'No chain data available' };
+  }, [chains, queryError, registry]);
   const [positions, setPositions] = useState<Map<string, NodePosition>>(new Map());
   const [hoveredChain, setHoveredChain] = useState<Chain | null>(null);
   const [selectedChain, setSelectedChain] = useState<Chain | null>(null);
@@ -57,39 +67,6 @@ export function NetworkTopologyGraph() {
   const rotationAngles = useRef<number[]>([0, 0, 0]);
 
 
-  useEffect(() => {
-    async function fetchChains() {
-      try {
-        setLoading(true);
-        const chainsData = await getChains();
-
-        if (chainsData && chainsData.length > 0) {
-          const validChains = chainsData.filter(chain =>
-            (chain.validators && chain.validators.length > 0) ||
-            chain.chainName.toLowerCase().includes('avalanche') ||
-            chain.chainName.toLowerCase().includes('c-chain')
-          );
-
-          if (validChains.length > 0) {
-            setChains(validChains);
-            setError(null);
-          } else {
-            setError('No chains with validators available');
-          }
-        } else {
-          setError('No chain data available');
-        }
-      } catch (err) {
-        console.error('Failed to fetch chains for topology graph:', err);
-        setError('Failed to load network data');
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchChains();
-  }, []);
-
   // Find C-Chain for center positioning
   const cChain = useMemo(() => chains.find(chain =>
     chain.chainName.toLowerCase().includes('c-chain') ||
@@ -314,6 +291,38 @@ export function NetworkTopologyGraph() {
     return `M ${fromPos.x} ${fromPos.y} Q ${midX} ${midY} ${toPos.x} ${toPos.y}`;
   };
 
+  // Nodes are HTML, so the export redraws the graph as one SVG with labelled circles instead of logos
+  const renderTopologySvg = (background: string) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    const width = Math.round(bounds?.width ?? 0);
+    const height = Math.round(bounds?.height ?? 0);
+    const center = cChain && positions.get(cChain.chainId);
+    if (!width || !height || !center) return null;
+
+    // Names arrive HTML-escaped from the API, only bare ampersands need escaping
+    const escapeText = (text: string) => text.replace(/&(?!#?\w+;)/g, '&amp;').replace(/</g, '&lt;');
+
+    const connections = chains.flatMap(chain => {
+      const position = positions.get(chain.chainId);
+      if (!position || chain.chainId === cChain.chainId) return [];
+      return [`<path d="${createCurvedPath(center, position)}" fill="none" stroke="rgba(255, 255, 255, 0.3)" stroke-width="2" stroke-dasharray="4,4"/>`];
+    });
+
+    const nodes = chains.flatMap(chain => {
+      const position = positions.get(chain.chainId);
+      if (!position) return [];
+      const isCenter = chain.chainId === cChain.chainId;
+      const radius = getNodeSize(chain, isCenter) / 2;
+      return [
+        `<circle cx="${position.x}" cy="${position.y}" r="${radius}" fill="${isCenter ? '#E84142' : 'rgba(255, 255, 255, 0.1)'}" stroke="rgba(255, 255, 255, 0.2)"/>`,
+        `<text x="${position.x}" y="${position.y + radius + 14}" fill="#ffffff" font-family="sans-serif" font-size="11" text-anchor="middle">${escapeText(chain.chainName)}</text>`,
+      ];
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + `<rect width="100%" height="100%" fill="${background}"/>${connections.join('')}${nodes.join('')}</svg>`;
+  };
+
   if (loading) {
     return (
       <div className="relative h-full">
@@ -363,12 +372,13 @@ export function NetworkTopologyGraph() {
             "shadow-2xl shadow-black/10 dark:shadow-black/20"
           )}>
             <div className="h-[500px] flex flex-col items-center justify-center">
-              <AlertTriangle className="h-12 w-12 text-amber-400 mb-4" />
-              <p className="text-white/60 text-center mb-4">
-                {error || 'No network data available'}
+              <ErrorIcon kind={error?.kind ?? 'unknown'} className="h-12 w-12 text-amber-400 mb-4" />
+              {error && <p className="font-medium text-white mb-1">{error.title}</p>}
+              <p className="text-white/60 text-center mb-4 break-words">
+                {error?.message ?? 'No network data available'}
               </p>
               <button
-                onClick={() => window.location.reload()}
+                onClick={refetch}
                 className="inline-flex items-center px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white backdrop-blur-sm border border-white/20 transition-all duration-200"
               >
                 <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
@@ -424,6 +434,21 @@ export function NetworkTopologyGraph() {
                 >
                   <Zap className="w-4 h-4" />
                 </button>
+                <ChartExportMenu
+                  name="network-topology"
+                  targetRef={containerRef}
+                  getRows={() => chains.map(chain => ({
+                    chainId: chain.chainId,
+                    chainName: chain.chainName,
+                    tps: chain.tps?.value ?? null,
+                    validators: chain.validators.length,
+                    orbit: chain.chainId === cChain?.chainId ? null : positions.get(chain.chainId)?.orbit ?? null,
+                  }))}
+                  formats={['png', 'svg', 'csv', 'json']}
+                  renderSvg={renderTopologySvg}
+                  background={EXPORT_BACKGROUNDS.dark}
+                  className="rounded-full bg-white/10 hover:bg-white/20 text-white/60 hover:text-white/80 dark:text-white/60 dark:hover:text-white/80 dark:hover:bg-white/20 backdrop-blur-sm border border-white/20"
+                />
               </div>
             </div>
 
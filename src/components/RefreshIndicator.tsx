@@ -0,0 +1,36 @@
+import { RefreshCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '../lib/utils';
+
+interface RefreshIndicatorProps {
+  isRefreshing: boolean;
+  isStale: boolean;
+  lastUpdated: number | null;
+  className?: string;
+}
+
+// Small badge telling the user cached data is being shown or refreshed
+export function RefreshIndicator({ isRefreshing, isStale, lastUpdated, className }: RefreshIndicatorProps) {
+  if (!isRefreshing && !isStale) return null;
+
+  const fetchedAgo = lastUpdated ? `Fetched ${formatDistanceToNow(lastUpdated, { addSuffix: true })}` : undefined;
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1.5 text-xs', className)}
+      title={fetchedAgo}
+    >
+      {isRefreshing ? (
+        <>
+          <RefreshCw className="w-3 h-3 animate-spin" />
+          Refreshing
+        </>
+      ) : (
+        <>
+          <span className="w-1.5 h-1.5 rounded-full bg-amber-400" />
+          Cached
+        </>
+      )}
+    </span>
+  );
+}
@@ -1,97 +1,381 @@
-import React, { useMemo } from 'react';
-import { Pie } from 'react-chartjs-2';
-import { Chart as ChartJS, ArcElement, Tooltip } from 'chart.js';
-import { Validator } from '../types';
+import { useMemo, useRef, useState } from 'react';
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Filler,
+  Tooltip,
+} from 'chart.js';
+import * as d3 from 'd3';
+import { BarChart3, LayoutGrid, LucideIcon, PieChart, TrendingUp } from 'lucide-react';
+import { Chain, Validator } from '../types';
 import { useTheme } from '../hooks/useTheme';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { getStakeStats, sortByStake } from '../lib/stakeStats';
+import { STAKE_DECIMALS, stakeToDecimalString, stakeToNumber, sumStake } from '../lib/stake';
+import { formatStake } from '../lib/displayUnit';
+import { cn } from '../lib/utils';
+import { ChartExportMenu } from './ChartExportMenu';
 
-ChartJS.register(ArcElement, Tooltip);
+ChartJS.register(ArcElement, BarElement, CategoryScale, LinearScale, LineElement, PointElement, Filler, Tooltip);
+
+type StakeView = 'donut' | 'bar' | 'cumulative' | 'treemap';
+
+const VIEWS: { value: StakeView; label: string; icon: LucideIcon }[] = [
+  { value: 'donut', label: 'Top validators', icon: PieChart },
+  { value: 'bar', label: 'Sorted bars', icon: BarChart3 },
+  { value: 'cumulative', label: 'Cumulative share', icon: TrendingUp },
+  { value: 'treemap', label: 'Treemap', icon: LayoutGrid },
+];
+
+// Slices in the donut before the rest are grouped into "Others"
+const DONUT_SLICES = 10;
+// Treemap is laid out in this coordinate space and scaled to fit
+const TREEMAP_WIDTH = 800;
+const TREEMAP_HEIGHT = 500;
+// Bar labels get unreadable past this many validators
+const MAX_LABELLED_BARS = 30;
 
 interface StakeDistributionChartProps {
   validators: Validator[];
+  token?: Chain['networkToken']; // The chain's staking token, for the native unit and its decimals
+  highlightedValidator?: string | null;
+  onValidatorSelect?: (address: string) => void;
+}
+
+function shortNodeId(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 12)}…${address.slice(-4)}` : address;
 }
 
-export function StakeDistributionChart({ validators }: StakeDistributionChartProps) {
+export function StakeDistributionChart({
+  validators,
+  token,
+  highlightedValidator = null,
+  onValidatorSelect,
+}: StakeDistributionChartProps) {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const { tokenScale } = useDisplayUnit();
+  const scale = tokenScale(token?.symbol);
+  const decimals = token?.decimals ?? STAKE_DECIMALS;
+  const [view, setView] = useState<StakeView>('donut');
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const stats = useMemo(() => getStakeStats(validators), [validators]);
+  const { totalStake } = stats;
+
+  // Every view and the tooltips index into this list, never into `validators`
+  const sorted = useMemo(() => sortByStake(validators), [validators]);
+
+  const highlightIndex = highlightedValidator
+    ? sorted.findIndex(validator => validator.address === highlightedValidator)
+    : -1;
+
+  // Dim everything except the highlighted validator
+  const colorAt = (index: number, alpha = 0.8) =>
+    getValidatorColor(index, isDark, highlightIndex === -1 || highlightIndex === index ? alpha : 0.2);
+
+  // Shares come from the float weights, amounts are formatted from the exact stake
+  const totalWeight = stakeToNumber(totalStake, decimals);
+  const percentOf = (value: number) => (totalWeight > 0 ? (value / totalWeight) * 100 : 0);
+
+  const tooltip = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+    titleColor: isDark ? '#e2e8f0' : '#1e293b',
+    bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+    borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+    borderWidth: 1,
+    padding: 12,
+    boxPadding: 4,
+  };
+
+  const axisColor = isDark ? '#94a3b8' : '#64748b';
+  const gridColor = isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)';
+
+  // chart.js reports the clicked element by its index in the plotted validators.
+  // Indices past them, like the donut's grouped others slice, select nothing.
+  const selectOnClick = (plotted: Validator[]) => (_event: unknown, elements: { index: number }[]) => {
+    const validator = elements.length ? plotted[elements[0].index] : undefined;
+    if (validator) onValidatorSelect?.(validator.address);
+  };
+
+  const renderDonut = () => {
+    const top = sorted.slice(0, DONUT_SLICES);
+    const othersStake = sumStake(sorted.slice(DONUT_SLICES));
+    const othersCount = sorted.length - top.length;
 
-  const { data, totalStake, colors } = useMemo(() => {
-    // Calculate total stake
-    const total = validators.reduce((sum, v) => sum + v.weight, 0);
-    
-    // Sort validators by stake weight in descending order
-    const sortedValidators = [...validators].sort((a, b) => b.weight - a.weight);
-
-    // Generate colors for the chart
-    const generateColor = (index: number, alpha = 1) => {
-      const hue = (index * 137.508) % 360; // Golden angle approximation
-      const saturation = isDark ? '80%' : '70%';
-      const lightness = isDark ? '60%' : '50%';
-      return `hsla(${hue}, ${saturation}, ${lightness}, ${alpha})`;
+    const data = {
+      labels: [...top.map(validator => validator.address), ...(othersCount ? [`${othersCount} others`] : [])],
+      datasets: [{
+        data: [...top.map(validator => validator.weight), ...(othersCount ? [stakeToNumber(othersStake, decimals)] : [])],
+        backgroundColor: [...top.map((_, i) => colorAt(i)), ...(othersCount ? [isDark ? 'rgba(100, 116, 139, 0.6)' : 'rgba(148, 163, 184, 0.6)'] : [])],
+        borderColor: isDark ? '#1e293b' : '#ffffff',
+        borderWidth: 2,
+      }],
     };
 
-    // Generate colors map for validators
-    const validatorColors = new Map(
-      sortedValidators.map((validator, index) => [
-        validator.address,
-        {
-          background: generateColor(index, 0.8),
-          border: generateColor(index),
-        }
-      ])
-    );
-
-    // Prepare data for the chart
-    const values = sortedValidators.map(v => v.weight);
-    const backgroundColor = sortedValidators.map((_, i) => generateColor(i, 0.8));
-    const borderColor = sortedValidators.map((_, i) => generateColor(i));
-
-    return {
-      data: {
-        datasets: [{
-          data: values,
-          backgroundColor,
-          borderColor,
-          borderWidth: isDark ? 2 : 1,
-        }],
+    const options = {
+      responsive: true,
+      maintainAspectRatio: false,
+      cutout: '55%',
+      onClick: selectOnClick(top),
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          ...tooltip,
+          callbacks: {
+            label: (context: { dataIndex: number; raw: unknown }) => {
+              const isTop = context.dataIndex < top.length;
+              const label = isTop ? top[context.dataIndex].address : `${othersCount} other validators`;
+              const amount = isTop ? top[context.dataIndex].stake : othersStake;
+              return `${label}: ${formatStake(amount, scale, {}, decimals)} (${percentOf(Number(context.raw)).toFixed(1)}%)`;
+            },
+          },
+        },
       },
-      totalStake: total,
-      colors: validatorColors,
     };
-  }, [validators, isDark]);
-
-  const options = {
-    responsive: true,
-    maintainAspectRatio: false,
-    plugins: {
-      legend: {
-        display: false,
+
+    return <Doughnut data={data} options={options} />;
+  };
+
+  const renderBar = () => {
+    const data = {
+      labels: sorted.map(validator => shortNodeId(validator.address)),
+      datasets: [{
+        data: sorted.map(validator => percentOf(validator.weight)),
+        backgroundColor: sorted.map((_, i) => colorAt(i)),
+        borderRadius: 2,
+      }],
+    };
+
+    const options = {
+      responsive: true,
+      maintainAspectRatio: false,
+      onClick: selectOnClick(sorted),
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          ...tooltip,
+          callbacks: {
+            title: (items: { dataIndex: number }[]) => (items.length ? sorted[items[0].dataIndex].address : ''),
+            label: (context: { dataIndex: number; parsed: { y: number } }) =>
+              `#${context.dataIndex + 1}: ${formatStake(sorted[context.dataIndex].stake, scale, {}, decimals)} (${context.parsed.y.toFixed(2)}%)`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { display: sorted.length <= MAX_LABELLED_BARS, color: axisColor, maxRotation: 60 },
+        },
+        y: {
+          beginAtZero: true,
+          grid: { color: gridColor },
+          ticks: { color: axisColor, callback: (value: number | string) => `${value}%` },
+        },
       },
-      tooltip: {
-        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
-        titleColor: isDark ? '#e2e8f0' : '#1e293b',
-        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
-        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
-        borderWidth: 1,
-        padding: 12,
-        boxPadding: 4,
-        callbacks: {
-          label: (context: any) => {
-            const value = context.raw;
-            const percentage = ((value / totalStake) * 100).toFixed(1);
-            const validatorAddress = validators[context.dataIndex].address;
-            return `${validatorAddress}: ${value.toLocaleString()} tokens (${percentage}%)`;
+    };
+
+    return <Bar data={data} options={options} />;
+  };
+
+  const renderCumulative = () => {
+    let cumulative = 0;
+    const points = sorted.map((validator, index) => {
+      cumulative += validator.weight;
+      return { x: index + 1, y: percentOf(cumulative) };
+    });
+
+    const data = {
+      datasets: [{
+        data: points,
+        borderColor: isDark ? 'rgb(129, 140, 248)' : 'rgb(99, 102, 241)',
+        backgroundColor: isDark ? 'rgba(129, 140, 248, 0.2)' : 'rgba(99, 102, 241, 0.1)',
+        fill: 'origin' as const,
+        borderWidth: 2,
+        tension: 0,
+        pointRadius: sorted.map((_, i) => (i === highlightIndex ? 6 : 0)),
+        pointHoverRadius: 4,
+        pointBackgroundColor: sorted.map((_, i) => getValidatorColor(i, isDark)),
+      }],
+    };
+
+    const options = {
+      responsive: true,
+      maintainAspectRatio: false,
+      onClick: selectOnClick(sorted),
+      interaction: { mode: 'nearest' as const, intersect: false },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          ...tooltip,
+          callbacks: {
+            title: (items: { dataIndex: number }[]) => (items.length ? sorted[items[0].dataIndex].address : ''),
+            label: (context: { dataIndex: number; parsed: { y: number } }) =>
+              `Top ${context.dataIndex + 1} hold ${context.parsed.y.toFixed(1)}% of stake`,
           },
         },
       },
-    },
+      scales: {
+        x: {
+          type: 'linear' as const,
+          min: 1,
+          max: Math.max(sorted.length, 1),
+          title: { display: true, text: 'Validators, largest first', color: axisColor },
+          grid: { display: false },
+          ticks: { color: axisColor, precision: 0 },
+        },
+        y: {
+          min: 0,
+          max: 100,
+          title: { display: true, text: 'Cumulative stake', color: axisColor },
+          grid: { color: gridColor },
+          ticks: { color: axisColor, callback: (value: number | string) => `${value}%` },
+        },
+      },
+    };
+
+    return <Line data={data} options={options} />;
+  };
+
+  const treemap = useMemo(() => {
+    if (!sorted.length) return [];
+    const root = d3.hierarchy<{ validator?: Validator; children?: { validator: Validator }[] }>({
+      children: sorted.map(validator => ({ validator })),
+    }).sum(node => node.validator?.weight ?? 0);
+
+    return d3.treemap<{ validator?: Validator }>()
+      .size([TREEMAP_WIDTH, TREEMAP_HEIGHT])
+      .padding(1)(root)
+      .leaves();
+  }, [sorted]);
+
+  const renderTreemap = () => (
+    <svg viewBox={`0 0 ${TREEMAP_WIDTH} ${TREEMAP_HEIGHT}`} className="w-full h-full" role="img" aria-label="Stake treemap">
+      {treemap.map((leaf, index) => {
+        const validator = leaf.data.validator!;
+        const width = leaf.x1 - leaf.x0;
+        const height = leaf.y1 - leaf.y0;
+        const isHighlighted = index === highlightIndex;
+
+        return (
+          <g
+            key={validator.address}
+            transform={`translate(${leaf.x0},${leaf.y0})`}
+            onClick={() => onValidatorSelect?.(validator.address)}
+            className={cn(onValidatorSelect && 'cursor-pointer')}
+          >
+            <title>{`${validator.address}: ${formatStake(validator.stake, scale, {}, decimals)} (${percentOf(validator.weight).toFixed(2)}%)`}</title>
+            <rect
+              width={width}
+              height={height}
+              fill={colorAt(index)}
+              stroke={isHighlighted ? (isDark ? '#ffffff' : '#0f172a') : 'none'}
+              strokeWidth={isHighlighted ? 3 : 0}
+            />
+            {width > 80 && height > 28 && (
+              <text x={6} y={18} fontSize={12} fill={isDark ? '#0f172a' : '#ffffff'} className="pointer-events-none">
+                {shortNodeId(validator.address)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+
+  // The donut groups the tail into one slice, the other views show every validator.
+  // Stake is exported exactly, in whole native tokens.
+  const getExportRows = () => {
+    if (view === 'donut') {
+      const others = sorted.slice(DONUT_SLICES);
+      const othersStake = sumStake(others);
+      return [
+        ...sorted.slice(0, DONUT_SLICES).map(validator => ({
+          label: validator.address,
+          stake: stakeToDecimalString(validator.stake, decimals),
+          sharePercent: percentOf(validator.weight),
+        })),
+        ...(others.length ? [{
+          label: `${others.length} others`,
+          stake: stakeToDecimalString(othersStake, decimals),
+          sharePercent: percentOf(stakeToNumber(othersStake, decimals)),
+        }] : []),
+      ];
+    }
+
+    let cumulative = 0;
+    return sorted.map((validator, index) => {
+      cumulative += validator.weight;
+      return {
+        rank: index + 1,
+        nodeId: validator.address,
+        stake: stakeToDecimalString(validator.stake, decimals),
+        sharePercent: percentOf(validator.weight),
+        cumulativeSharePercent: percentOf(cumulative),
+      };
+    });
+  };
+
+  const renderView = () => {
+    switch (view) {
+      case 'donut':
+        return renderDonut();
+      case 'bar':
+        return renderBar();
+      case 'cumulative':
+        return renderCumulative();
+      case 'treemap':
+        return renderTreemap();
+    }
   };
 
   return (
     <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
-      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Stake Distribution</h3>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Stake Distribution</h3>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-gray-300 dark:border-gray-700 overflow-hidden">
+            {VIEWS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                title={label}
+                aria-pressed={view === value}
+                className={cn(
+                  'inline-flex items-center gap-1.5 px-2.5 py-1.5 text-sm transition-colors',
+                  view === value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                )}
+              >
+                <Icon className="w-4 h-4" />
+                <span className="hidden sm:inline">{label}</span>
+              </button>
+            ))}
+          </div>
+          {sorted.length > 0 && (
+            <ChartExportMenu
+              name={`stake-distribution-${view}`}
+              targetRef={plotRef}
+              getRows={getExportRows}
+              formats={view === 'treemap' ? ['png', 'svg', 'csv', 'json'] : undefined}
+            />
+          )}
+        </div>
+      </div>
       <div className="flex flex-col md:flex-row items-start gap-4">
-        <div className="w-full md:w-3/4 h-[500px]">
-          <Pie data={data} options={options} />
+        <div ref={plotRef} className="w-full md:w-3/4 h-[500px]">
+          {sorted.length > 0 ? renderView() : (
+            <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
+              No validators to show
+            </div>
+          )}
         </div>
         <div className="w-full md:w-1/4">
           <div className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
@@ -100,7 +384,7 @@ export function StakeDistributionChart({ validators }: StakeDistributionChartPro
               <div>
                 <dt className="text-sm text-gray-500 dark:text-gray-400">Total Stake</dt>
                 <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                  {totalStake.toLocaleString()} tokens
+                  {formatStake(totalStake, scale, {}, decimals)}
                 </dd>
               </div>
               <div>
@@ -112,10 +396,27 @@ export function StakeDistributionChart({ validators }: StakeDistributionChartPro
               <div>
                 <dt className="text-sm text-gray-500 dark:text-gray-400">Average Stake</dt>
                 <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                  {(totalStake / validators.length).toLocaleString()} tokens
+                  {formatStake(stats.averageStake, scale, {}, decimals)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500 dark:text-gray-400">Median Stake</dt>
+                <dd className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {formatStake(stats.medianStake, scale, {}, decimals)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500 dark:text-gray-400">Largest Validator</dt>
+                <dd className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {(stats.largestShare * 100).toFixed(1)}% of stake
                 </dd>
               </div>
             </dl>
+            {onValidatorSelect && (
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-4">
+                Click a validator to find it in the table below.
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -123,10 +424,10 @@ export function StakeDistributionChart({ validators }: StakeDistributionChartPro
   );
 }
 
-// Export the color generation function to be used in the validators table
+// Colour for a validator's position in stake order, shared with the validators table
 export function getValidatorColor(index: number, isDark: boolean, alpha = 1): string {
   const hue = (index * 137.508) % 360;
   const saturation = isDark ? '80%' : '70%';
   const lightness = isDark ? '60%' : '50%';
   return `hsla(${hue}, ${saturation}, ${lightness}, ${alpha})`;
-}
\ No newline at end of file
+}
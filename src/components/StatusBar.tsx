@@ -1,7 +1,9 @@
 import { CheckCircle, XCircle, AlertTriangle, Menu, X, ExternalLink } from 'lucide-react';
 import { HealthStatus } from '../types';
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { ThemeToggle } from './ThemeToggle';
+import { DisplayUnitSelect } from './DisplayUnitSelect';
 
 interface StatusBarProps {
   health: HealthStatus | null;
@@ -100,6 +102,13 @@ export function StatusBar({ health }: StatusBarProps) {
             {/* Desktop Navigation */}
             <div className="hidden md:flex items-center gap-6">
               <div className="flex items-center gap-4">
+                <Link
+                  to="/validators"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                >
+                  Validators
+                </Link>
+
                 <button
                   onClick={() => setShowTooltip('blog')}
                   onMouseLeave={() => setShowTooltip(null)}
@@ -138,6 +147,7 @@ export function StatusBar({ health }: StatusBarProps) {
               </div>
 
               <div className="h-6 w-px bg-gray-200 dark:bg-gray-700"></div>
+              <DisplayUnitSelect />
               <ThemeToggle />
             </div>
 
@@ -184,6 +194,13 @@ export function StatusBar({ health }: StatusBarProps) {
               )}
 
               <div className="space-y-1">
+                <Link
+                  to="/validators"
+                  className="w-full px-4 py-3 flex items-center justify-between text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-50 dark:bg-gray-900/50 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800/50"
+                >
+                  <span>Validators</span>
+                </Link>
+
                 <button
                   onClick={() => {
                     setShowTooltip('blog');
@@ -223,6 +240,10 @@ export function StatusBar({ health }: StatusBarProps) {
 
               <div className="px-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                 <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Units</span>
+                  <DisplayUnitSelect />
+                </div>
+                <div className="flex items-center justify-between mt-3">
                   <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Theme</span>
                   <ThemeToggle />
                 </div>
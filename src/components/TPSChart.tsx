@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
 import { Line } from 'react-chartjs-2';
 import { format } from 'date-fns';
 import {
@@ -12,10 +13,36 @@ import {
   Legend,
   Filler
 } from 'chart.js';
-import { TPSHistory, NetworkTPS } from '../types';
-import { getTPSHistory, getNetworkTPS } from '../api';
 import { useTheme } from '../hooks/useTheme';
-import { AlertTriangle, TrendingUp, RefreshCw } from 'lucide-react';
+import { useTPSHistory, useNetworkTPS } from '../hooks/useApiQuery';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { RefreshIndicator } from './RefreshIndicator';
+import { TimeRangeBrush } from './TimeRangeBrush';
+import { ChartExportMenu } from './ChartExportMenu';
+import {
+  clampCustomRange,
+  DEFAULT_TPS_RANGE,
+  formatRangeDate,
+  getEarliestRangeDate,
+  getDefaultCustomRange,
+  getTpsRangeBounds,
+  getTpsRangeDays,
+  isSameTpsRange,
+  TPS_RANGE_PRESETS,
+  TpsRange,
+} from '../lib/tpsRange';
+import {
+  BASELINE_WINDOW_SECONDS,
+  DEFAULT_Z_SCORE_THRESHOLD,
+  detectAnomalies,
+  movingAverage,
+  MOVING_AVERAGE_WINDOWS,
+  rollingPercentile,
+  Z_SCORE_THRESHOLDS,
+} from '../lib/timeSeries';
+import { cn } from '../lib/utils';
+import { TrendingUp, RefreshCw, ZoomOut, AlertTriangle } from 'lucide-react';
 
 ChartJS.register(
   CategoryScale,
@@ -28,72 +55,264 @@ ChartJS.register(
   Filler
 );
 
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+
+// Drags shorter than this are treated as clicks
+const MIN_ZOOM_PIXELS = 5;
+// Hide point markers once the series gets dense
+const MAX_POINTS_WITH_MARKERS = 60;
+// Spans up to this long label ticks with the time of day
+const HOURLY_TICKS_SECONDS = 2 * 24 * 60 * 60;
+// Shown either side of an anomaly picked from the list
+const ANOMALY_ZOOM_SECONDS = 24 * 60 * 60;
+
+type Overlay = typeof MOVING_AVERAGE_WINDOWS[number]['key'] | 'percentiles' | 'anomalies';
+
+const OVERLAYS: { value: Overlay; label: string }[] = [
+  ...MOVING_AVERAGE_WINDOWS.map(({ key, label }) => ({ value: key, label })),
+  { value: 'percentiles', label: 'p50/p95' },
+  { value: 'anomalies', label: 'Anomalies' },
+];
+
+const OVERLAY_COLORS = {
+  ma1h: 'rgb(245, 158, 11)',
+  ma24h: 'rgb(168, 85, 247)',
+  percentiles: 'rgb(148, 163, 184)',
+  anomalies: 'rgb(239, 68, 68)',
+};
+
+const ANOMALY_LABEL = 'Anomaly';
+
 interface TPSChartProps {
   chainId?: string;
   chainName?: string;
+  range?: TpsRange; // Controlled range, e.g. from the page URL. Without it the chart keeps its own.
+  onRangeChange?: (range: TpsRange) => void;
 }
 
-export function TPSChart({ chainId, chainName }: TPSChartProps) {
+interface Zoom {
+  range: TpsRange; // Range the zoom was made in, changing the range resets it
+  window: [number, number]; // Unix seconds
+}
+
+export function TPSChart({ chainId, chainName, range: controlledRange, onRangeChange }: TPSChartProps) {
   const { theme } = useTheme();
-  const [tpsHistory, setTpsHistory] = useState<TPSHistory[]>([]);
-  const [networkTPS, setNetworkTPS] = useState<NetworkTPS | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
+  const [localRange, setLocalRange] = useState<TpsRange>(DEFAULT_TPS_RANGE);
+  const range = controlledRange ?? localRange;
+  const setRange = onRangeChange ?? setLocalRange;
+
+  const days = useMemo(() => getTpsRangeDays(range), [range]);
+  const historyQuery = useTPSHistory(days, chainId, { refreshInterval: REFRESH_INTERVAL });
+  // The network-wide headline only applies when no chain is selected
+  const networkQuery = useNetworkTPS({ refreshInterval: REFRESH_INTERVAL, enabled: !chainId });
+
+  const chartRef = useRef<ChartJS<'line'>>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState<Zoom | null>(null);
+  const [dragPixels, setDragPixels] = useState<[number, number] | null>(null);
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+  const [zScoreThreshold, setZScoreThreshold] = useState(DEFAULT_Z_SCORE_THRESHOLD);
+
+  // Sorted, and trimmed to a custom range's dates since the API only takes a number of days
+  const sortedHistory = useMemo(
+    () => [...(historyQuery.data ?? [])].sort((a, b) => a.timestamp - b.timestamp),
+    [historyQuery.data]
+  );
+  const tpsHistory = useMemo(() => {
+    const bounds = getTpsRangeBounds(range);
+    return bounds
+      ? sortedHistory.filter(item => item.timestamp >= bounds[0] && item.timestamp <= bounds[1])
+      : sortedHistory;
+  }, [sortedHistory, range]);
+
+  const networkTPS = chainId ? null : networkQuery.data ?? null;
+  const error = historyQuery.error;
 
   const isDark = theme === 'dark';
+  const zoomWindow = zoom && isSameTpsRange(zoom.range, range) ? zoom.window : null;
 
-  useEffect(() => {
-    let mounted = true;
-
-    async function fetchData() {
-      try {
-        setLoading(true);
-        setError(null);
-        setRetrying(true);
-        
-        if (chainId) {
-          const history = await getTPSHistory(7, chainId);
-          if (mounted) {
-            // Sort history by date in ascending order
-            setTpsHistory(history.sort((a, b) => a.timestamp - b.timestamp));
-            setNetworkTPS(null);
-          }
-        } else {
-          const [history, current] = await Promise.all([
-            getTPSHistory(7),
-            getNetworkTPS()
-          ]);
-          if (mounted) {
-            // Sort history by date in ascending order
-            setTpsHistory(history.sort((a, b) => a.timestamp - b.timestamp));
-            setNetworkTPS(current);
-          }
-        }
-      } catch (err) {
-        if (mounted) {
-          setError('Failed to fetch TPS data');
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false);
-          setRetrying(false);
-        }
+  const setZoomWindow = (window: [number, number] | null) => {
+    setZoom(window ? { range, window } : null);
+  };
+
+  const lineColor = chainId
+    ? isDark ? 'rgb(129, 140, 248)' : 'rgb(99, 102, 241)'
+    : isDark ? 'rgb(74, 222, 128)' : 'rgb(34, 197, 94)';
+  const fillColor = chainId
+    ? isDark ? 'rgba(129, 140, 248, 0.2)' : 'rgba(99, 102, 241, 0.1)'
+    : isDark ? 'rgba(74, 222, 128, 0.2)' : 'rgba(34, 197, 94, 0.1)';
+
+  const points = useMemo(
+    () => tpsHistory.map(item => ({ x: item.timestamp, y: item.totalTps })),
+    [tpsHistory]
+  );
+
+  // Overlays are only computed while switched on
+  const movingAverages = useMemo(
+    () => MOVING_AVERAGE_WINDOWS
+      .filter(({ key }) => overlays.includes(key))
+      .map(window => ({ ...window, points: movingAverage(points, window.seconds) })),
+    [points, overlays]
+  );
+  const percentileBand = useMemo(
+    () => overlays.includes('percentiles')
+      ? {
+        p50: rollingPercentile(points, BASELINE_WINDOW_SECONDS, 50),
+        p95: rollingPercentile(points, BASELINE_WINDOW_SECONDS, 95),
       }
+      : null,
+    [points, overlays]
+  );
+  const anomalies = useMemo(
+    () => overlays.includes('anomalies')
+      ? detectAnomalies(points, { windowSeconds: BASELINE_WINDOW_SECONDS, threshold: zScoreThreshold })
+      : [],
+    [points, overlays, zScoreThreshold]
+  );
+
+  const formatDate = (timestamp: number, pattern: string = 'MMM d') => {
+    try {
+      const date = new Date(timestamp * 1000);
+      if (isNaN(date.getTime())) {
+        throw new Error('Invalid date');
+      }
+      return format(date, pattern);
+    } catch (err) {
+      console.warn('Date formatting error:', err);
+      return 'Invalid date';
     }
+  };
+
+  const formatDateTime = (timestamp: number) => formatDate(timestamp, 'MMM d, h:mm a');
+
+  // Position within the plot area, or null outside it
+  const toChartX = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const chart = chartRef.current;
+    if (!chart) return null;
+    const x = event.clientX - event.currentTarget.getBoundingClientRect().left;
+    return Math.min(Math.max(x, chart.chartArea.left), chart.chartArea.right);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const chart = chartRef.current;
+    if (!chart || event.button !== 0) return;
+    const x = event.clientX - event.currentTarget.getBoundingClientRect().left;
+    if (x < chart.chartArea.left || x > chart.chartArea.right) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragPixels([x, x]);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!dragPixels) return;
+    const x = toChartX(event);
+    if (x !== null) setDragPixels([dragPixels[0], x]);
+  };
+
+  const handlePointerUp = () => {
+    const chart = chartRef.current;
+    const drag = dragPixels;
+    setDragPixels(null);
+    if (!chart || !drag || Math.abs(drag[1] - drag[0]) < MIN_ZOOM_PIXELS) return;
+
+    const start = chart.scales.x.getValueForPixel(Math.min(...drag));
+    const end = chart.scales.x.getValueForPixel(Math.max(...drag));
+    if (start !== undefined && end !== undefined) setZoomWindow([start, end]);
+  };
+
+  const toggleOverlay = (overlay: Overlay) => {
+    setOverlays(prev => (prev.includes(overlay) ? prev.filter(value => value !== overlay) : [...prev, overlay]));
+  };
+
+  const zoomToAnomaly = (timestamp: number) => {
+    setZoomWindow([
+      Math.max(timestamp - ANOMALY_ZOOM_SECONDS, points[0].x),
+      Math.min(timestamp + ANOMALY_ZOOM_SECONDS, points[points.length - 1].x),
+    ]);
+  };
+
+  const handlePresetChange = (preset: TpsRange['preset']) => {
+    if (preset === range.preset) return;
+    setRange(preset === 'custom' ? getDefaultCustomRange() : { ...DEFAULT_TPS_RANGE, preset });
+  };
+
+  const handleCustomDateChange = (field: 'from' | 'to', value: string) => {
+    const from = field === 'from' ? value : range.from;
+    const to = field === 'to' ? value : range.to;
+    // Ignore cleared inputs and reversed dates rather than writing an invalid range
+    const next = clampCustomRange(from, to);
+    if (next) setRange(next);
+  };
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <TrendingUp className="w-5 h-5 text-blue-500" />
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {chainId ? `${chainName || 'Chain'} Transactions Per Second` : 'Network-wide Transactions Per Second (TPS)'}
+      </h3>
+    </div>
+  );
+
+  const rangeControls = (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <div className="flex rounded-md border border-gray-300 dark:border-gray-700 overflow-hidden">
+        {[...TPS_RANGE_PRESETS, { value: 'custom' as const, label: 'Custom' }].map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => handlePresetChange(value)}
+            aria-pressed={range.preset === value}
+            className={cn(
+              'px-2.5 py-1 text-sm transition-colors',
+              range.preset === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {range.preset === 'custom' && (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <input
+            type="date"
+            value={range.from}
+            min={getEarliestRangeDate()}
+            max={range.to}
+            onChange={(e) => handleCustomDateChange('from', e.target.value)}
+            aria-label="From date"
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-dark-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            max={formatRangeDate(new Date())}
+            onChange={(e) => handleCustomDateChange('to', e.target.value)}
+            aria-label="To date"
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-dark-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      )}
 
-    fetchData();
-    const interval = setInterval(fetchData, 15 * 60 * 1000);
-    
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, [chainId]);
+      {zoomWindow && (
+        <button
+          onClick={() => setZoomWindow(null)}
+          className="inline-flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <ZoomOut className="w-4 h-4" />
+          Reset zoom
+        </button>
+      )}
+    </div>
+  );
 
-  if (loading) {
+  if (historyQuery.isLoading) {
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+        <div className="mb-4">{title}</div>
+        {rangeControls}
         <div className="h-64 flex flex-col items-center justify-center">
           <RefreshCw className="h-12 w-12 text-blue-500 animate-spin mb-4" />
           <p className="text-gray-600 dark:text-gray-300">Loading TPS data...</p>
@@ -102,116 +321,124 @@ export function TPSChart({ chainId, chainName }: TPSChartProps) {
     );
   }
 
-  if (error || !tpsHistory.length) {
+  if (!tpsHistory.length) {
+    const errorState = error ? describeApiError(error, 'Failed to fetch TPS data') : null;
+
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
-        <div className="flex justify-between items-center mb-6">
-          <div>
-            <div className="flex items-center gap-2">
-              <TrendingUp className="w-5 h-5 text-blue-500" />
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                {chainId ? `${chainName || 'Chain'} Transactions Per Second` : 'Network-wide Transactions Per Second (TPS)'}
-              </h3>
-            </div>
-          </div>
-        </div>
+        <div className="mb-4">{title}</div>
+        {rangeControls}
         <div className="h-64 flex flex-col items-center justify-center">
-          <AlertTriangle className="h-12 w-12 text-yellow-500 mb-4" />
-          <p className="text-gray-600 dark:text-gray-300 text-center mb-4">
-            {error || 'No TPS data available at the moment'}
+          <ErrorIcon kind={errorState?.kind ?? 'unknown'} className="h-12 w-12 text-yellow-500 mb-4" />
+          {errorState && (
+            <p className="font-medium text-gray-900 dark:text-white mb-1">{errorState.title}</p>
+          )}
+          <p className="text-gray-600 dark:text-gray-300 text-center mb-4 break-words">
+            {errorState?.message ?? (sortedHistory.length
+              ? 'No TPS data in the selected date range'
+              : 'No TPS data available at the moment')}
           </p>
-          <button 
-            onClick={() => {
-              setRetrying(true);
-              setLoading(true);
-              setError(null);
-              getTPSHistory(7, chainId).then(history => {
-                setTpsHistory(history.sort((a, b) => a.timestamp - b.timestamp));
-                setLoading(false);
-                setRetrying(false);
-              }).catch(err => {
-                setError('Failed to fetch TPS data');
-                setLoading(false);
-                setRetrying(false);
-              });
-            }}
-            disabled={retrying}
+          <button
+            onClick={historyQuery.refetch}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {retrying ? (
-              <>
-                <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                Retrying...
-              </>
-            ) : (
-              <>
-                <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
-                Retry
-              </>
-            )}
+            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            Retry
           </button>
         </div>
       </div>
     );
   }
 
-  const formatDate = (timestamp: number) => {
-    try {
-      const date = new Date(timestamp * 1000);
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid date');
-      }
-      return format(date, 'MMM d');
-    } catch (err) {
-      console.warn('Date formatting error:', err);
-      return 'Invalid date';
-    }
-  };
+  // Get the latest TPS value from history, regardless of a custom range's end date
+  const latestTPS = sortedHistory[sortedHistory.length - 1];
 
-  const formatDateTime = (timestamp: number) => {
-    try {
-      const date = new Date(timestamp * 1000);
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid date');
-      }
-      return format(date, 'MMM d, h:mm a');
-    } catch (err) {
-      console.warn('Date formatting error:', err);
-      return 'Invalid date';
-    }
-  };
-
-  // Get the latest TPS value from history
-  const latestTPS = tpsHistory[tpsHistory.length - 1];
+  const xMin = zoomWindow ? zoomWindow[0] : points[0].x;
+  const xMax = zoomWindow ? zoomWindow[1] : points[points.length - 1].x;
+  const visibleCount = points.filter(point => point.x >= xMin && point.x <= xMax).length;
+  const tickPattern = xMax - xMin <= HOURLY_TICKS_SECONDS ? 'HH:mm' : 'MMM d';
 
   const data = {
-    labels: tpsHistory.map(item => formatDate(item.timestamp)),
     datasets: [
       {
         label: chainId ? `${chainName || 'Chain'} TPS` : 'Network-wide TPS',
-        data: tpsHistory.map(item => item.totalTps),
+        data: points,
         fill: true,
-        borderColor: chainId 
-          ? isDark ? 'rgb(129, 140, 248)' : 'rgb(99, 102, 241)'
-          : isDark ? 'rgb(74, 222, 128)' : 'rgb(34, 197, 94)',
-        backgroundColor: chainId
-          ? isDark ? 'rgba(129, 140, 248, 0.2)' : 'rgba(99, 102, 241, 0.1)'
-          : isDark ? 'rgba(74, 222, 128, 0.2)' : 'rgba(34, 197, 94, 0.1)',
+        borderColor: lineColor,
+        backgroundColor: fillColor,
         borderWidth: isDark ? 2 : 1.5,
         tension: 0.4,
-        pointRadius: 4,
+        pointRadius: visibleCount > MAX_POINTS_WITH_MARKERS ? 0 : 4,
         pointHoverRadius: 6,
         pointBackgroundColor: isDark ? '#1e293b' : '#ffffff',
       },
+      ...movingAverages.map(({ key, label, points: averages }) => ({
+        label,
+        data: averages,
+        fill: false,
+        borderColor: OVERLAY_COLORS[key],
+        backgroundColor: OVERLAY_COLORS[key],
+        borderWidth: 1.5,
+        tension: 0.4,
+        pointRadius: 0,
+      })),
+      ...(percentileBand
+        ? [
+          {
+            label: 'p50',
+            data: percentileBand.p50,
+            fill: false,
+            borderColor: OVERLAY_COLORS.percentiles,
+            backgroundColor: OVERLAY_COLORS.percentiles,
+            borderWidth: 1,
+            borderDash: [4, 4],
+            tension: 0.4,
+            pointRadius: 0,
+          },
+          {
+            label: 'p95',
+            data: percentileBand.p95,
+            // Shade the band down to the p50 line above
+            fill: '-1',
+            borderColor: OVERLAY_COLORS.percentiles,
+            backgroundColor: isDark ? 'rgba(148, 163, 184, 0.15)' : 'rgba(148, 163, 184, 0.2)',
+            borderWidth: 1,
+            borderDash: [4, 4],
+            tension: 0.4,
+            pointRadius: 0,
+          },
+        ]
+        : []),
+      ...(anomalies.length
+        ? [{
+          label: ANOMALY_LABEL,
+          data: anomalies.map(anomaly => ({ x: anomaly.timestamp, y: anomaly.value })),
+          fill: false,
+          showLine: false,
+          borderColor: OVERLAY_COLORS.anomalies,
+          backgroundColor: OVERLAY_COLORS.anomalies,
+          pointRadius: 5,
+          pointHoverRadius: 7,
+        }]
+        : []),
     ],
   };
 
   const options = {
     responsive: true,
     maintainAspectRatio: false,
+    interaction: {
+      mode: 'nearest' as const,
+      axis: 'x' as const,
+      intersect: false,
+    },
     plugins: {
       legend: {
-        display: false,
+        display: overlays.length > 0,
+        labels: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          boxWidth: 12,
+        },
       },
       tooltip: {
         backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
@@ -222,7 +449,19 @@ export function TPSChart({ chainId, chainName }: TPSChartProps) {
         padding: 12,
         boxPadding: 4,
         callbacks: {
+          title: (items: { parsed: { x: number } }[]) => (items.length ? formatDateTime(items[0].parsed.x) : ''),
           label: (context: any) => {
+            if (context.dataset.label === ANOMALY_LABEL) {
+              const anomaly = anomalies[context.dataIndex];
+              return [
+                `Anomaly: ${anomaly.value.toFixed(2)} TPS`,
+                `Baseline: ${anomaly.baseline.toFixed(2)} TPS`,
+                `z-score: ${anomaly.zScore.toFixed(1)}`,
+              ];
+            }
+            if (context.datasetIndex > 0) {
+              return `${context.dataset.label}: ${context.parsed.y.toFixed(2)}`;
+            }
             const dataPoint = tpsHistory[context.dataIndex];
             if (chainId) {
               return [`TPS: ${context.parsed.y.toFixed(2)}`];
@@ -237,6 +476,9 @@ export function TPSChart({ chainId, chainName }: TPSChartProps) {
     },
     scales: {
       x: {
+        type: 'linear' as const,
+        min: xMin,
+        max: xMax,
         grid: {
           display: false,
         },
@@ -245,6 +487,8 @@ export function TPSChart({ chainId, chainName }: TPSChartProps) {
           font: {
             size: 11,
           },
+          maxTicksLimit: 8,
+          callback: (value: number | string) => formatDate(Number(value), tickPattern),
         },
       },
       y: {
@@ -264,19 +508,44 @@ export function TPSChart({ chainId, chainName }: TPSChartProps) {
     },
   };
 
+  const plotArea = chartRef.current?.chartArea;
+
+  // One row per point in view, with a column for each overlay that is switched on
+  const getExportRows = () => {
+    const anomaliesByTime = new Map(anomalies.map(anomaly => [anomaly.timestamp, anomaly]));
+
+    return tpsHistory.flatMap((item, index) => {
+      if (item.timestamp < xMin || item.timestamp > xMax) return [];
+      return [{
+        timestamp: new Date(item.timestamp * 1000).toISOString(),
+        tps: item.totalTps,
+        ...(chainId ? {} : { chainCount: item.chainCount }),
+        ...Object.fromEntries(movingAverages.map(({ key, points: averages }) => [key, averages[index].y])),
+        ...(percentileBand ? { p50: percentileBand.p50[index].y, p95: percentileBand.p95[index].y } : {}),
+        ...(overlays.includes('anomalies') ? { anomalyZScore: anomaliesByTime.get(item.timestamp)?.zScore ?? null } : {}),
+      }];
+    });
+  };
+
   return (
     <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex justify-between items-center mb-4">
         <div>
-          <div className="flex items-center gap-2">
-            <TrendingUp className="w-5 h-5 text-blue-500" />
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              {chainId ? `${chainName || 'Chain'} Transactions Per Second` : 'Network-wide Transactions Per Second (TPS)'}
-            </h3>
-          </div>
+          {title}
           {latestTPS && (
-            <p className="text-sm text-gray-500 dark:text-gray-400">
+            <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-3">
               Last updated: {formatDateTime(latestTPS.timestamp)}
+              <RefreshIndicator
+                isRefreshing={historyQuery.isRefreshing}
+                isStale={historyQuery.isStale}
+                lastUpdated={historyQuery.lastUpdated}
+                className="text-gray-400 dark:text-gray-500"
+              />
+            </p>
+          )}
+          {error != null && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+              {describeApiError(error, 'Failed to refresh TPS data').title}, showing cached data
             </p>
           )}
         </div>
@@ -292,9 +561,134 @@ export function TPSChart({ chainId, chainName }: TPSChartProps) {
         </div>
       </div>
 
-      <div className="h-64">
-        <Line data={data} options={options} />
+      {rangeControls}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <span className="text-gray-500 dark:text-gray-400">Overlays:</span>
+        {OVERLAYS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => toggleOverlay(value)}
+            aria-pressed={overlays.includes(value)}
+            className={cn(
+              'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-colors',
+              overlays.includes(value)
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                : 'border-gray-300 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            )}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: OVERLAY_COLORS[value] }} />
+            {label}
+          </button>
+        ))}
+        {overlays.includes('anomalies') && (
+          <label className="inline-flex items-center gap-2 text-gray-500 dark:text-gray-400">
+            z-score ≥
+            <select
+              value={zScoreThreshold}
+              onChange={(e) => setZScoreThreshold(Number(e.target.value))}
+              className="py-1 pl-2 pr-7 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-dark-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {Z_SCORE_THRESHOLDS.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="ml-auto">
+          <ChartExportMenu
+            name={chainId ? `${chainName || chainId}-tps` : 'network-tps'}
+            targetRef={plotRef}
+            getRows={getExportRows}
+          />
+        </div>
+      </div>
+
+      {/* Drag across the plot to zoom, double-click to reset */}
+      <div
+        ref={plotRef}
+        className="relative h-64 select-none touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDragPixels(null)}
+        onDoubleClick={() => setZoomWindow(null)}
+      >
+        <Line ref={chartRef} data={data} options={options} />
+        {dragPixels && plotArea && (
+          <div
+            className="absolute bg-blue-500/10 border-x border-blue-500/60 pointer-events-none"
+            style={{
+              top: plotArea.top,
+              height: plotArea.bottom - plotArea.top,
+              left: Math.min(...dragPixels),
+              width: Math.abs(dragPixels[1] - dragPixels[0]),
+            }}
+          />
+        )}
+      </div>
+
+      <div className="mt-3">
+        <TimeRangeBrush
+          points={points}
+          selection={zoomWindow}
+          onChange={setZoomWindow}
+          color={lineColor}
+          fill={fillColor}
+        />
       </div>
+
+      {overlays.includes('anomalies') && (
+        <div className="mt-4">
+          <h4 className="flex items-center gap-2 font-medium text-gray-900 dark:text-white mb-2">
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            Detected anomalies
+            <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+              ({anomalies.length}, {BASELINE_WINDOW_SECONDS / (24 * 60 * 60)}-day rolling baseline)
+            </span>
+          </h4>
+          {anomalies.length > 0 ? (
+            <div className="max-h-60 overflow-y-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium text-right">TPS</th>
+                    <th className="py-2 pr-4 font-medium text-right">Baseline</th>
+                    <th className="py-2 font-medium text-right">z-score</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700/50">
+                  {[...anomalies].reverse().map(anomaly => (
+                    <tr
+                      key={anomaly.timestamp}
+                      onClick={() => zoomToAnomaly(anomaly.timestamp)}
+                      title="Zoom to this anomaly"
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-dark-700/50"
+                    >
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">{formatDateTime(anomaly.timestamp)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{anomaly.value.toFixed(2)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-500 dark:text-gray-400">{anomaly.baseline.toFixed(2)}</td>
+                      <td
+                        className={cn(
+                          'py-2 text-right font-medium',
+                          anomaly.zScore > 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'
+                        )}
+                      >
+                        {anomaly.zScore > 0 ? '+' : ''}{anomaly.zScore.toFixed(1)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No points deviate from the baseline by {zScoreThreshold} standard deviations or more.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useRef } from 'react';
 import { Line } from 'react-chartjs-2';
 import { format } from 'date-fns';
 import {
@@ -12,10 +12,15 @@ import {
   Legend,
   Filler
 } from 'chart.js';
-import { TVLHistory, TVLHealth } from '../types';
-import { getTVLHistory, getTVLHealth } from '../api';
 import { useTheme } from '../hooks/useTheme';
-import { AlertTriangle, TrendingUp, RefreshCw, Info } from 'lucide-react';
+import { useTVLHistory, useTVLHealth } from '../hooks/useApiQuery';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { formatScaled } from '../lib/displayUnit';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { RefreshIndicator } from './RefreshIndicator';
+import { ChartExportMenu } from './ChartExportMenu';
+import { TrendingUp, RefreshCw, Info } from 'lucide-react';
 
 ChartJS.register(
   CategoryScale,
@@ -28,80 +33,29 @@ ChartJS.register(
   Filler
 );
 
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+
 export function TVLChart() {
   const { theme } = useTheme();
-  const [tvlHistory, setTvlHistory] = useState<TVLHistory[]>([]);
-  const [tvlHealth, setTvlHealth] = useState<TVLHealth | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
-
-  const isDark = theme === 'dark';
+  const historyQuery = useTVLHistory(30, { refreshInterval: REFRESH_INTERVAL });
+  const healthQuery = useTVLHealth({ refreshInterval: REFRESH_INTERVAL });
+  // Network-wide TVL has AVAX as its native unit
+  const scale = useDisplayUnit().usdScale();
+  const plotRef = useRef<HTMLDivElement>(null);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      setRetrying(true);
+  // History is validated and sorted by the API schema, an empty list renders the empty state
+  const tvlHistory = historyQuery.data ?? [];
+  const tvlHealth = healthQuery.data ?? null;
+  const error = historyQuery.error;
 
-      const [history, health] = await Promise.all([
-        getTVLHistory(30),
-        getTVLHealth()
-      ]);
-
-      // Validate and process TVL history data
-      if (history && Array.isArray(history)) {
-        const validHistory = history
-          .filter(item => 
-            item && 
-            typeof item.date === 'number' && 
-            typeof item.tvl === 'number' && 
-            !isNaN(item.date) && 
-            !isNaN(item.tvl)
-          )
-          .sort((a, b) => a.date - b.date); // Sort by date ascending
+  const isDark = theme === 'dark';
 
-        if (validHistory.length > 0) {
-          setTvlHistory(validHistory);
-          setTvlHealth(health);
-        } else {
-          throw new Error('No valid TVL data available');
-        }
-      } else {
-        throw new Error('Invalid TVL data format');
-      }
-    } catch (err) {
-      console.error('TVL data fetch error:', err);
-      setError('Unable to load TVL data. Please try again later.');
-    } finally {
-      setLoading(false);
-      setRetrying(false);
-    }
+  const refetch = () => {
+    historyQuery.refetch();
+    healthQuery.refetch();
   };
 
-  useEffect(() => {
-    let mounted = true;
-
-    const loadData = async () => {
-      try {
-        await fetchData();
-      } catch (err) {
-        if (mounted) {
-          setError('Failed to load TVL data');
-        }
-      }
-    };
-
-    loadData();
-    const interval = setInterval(loadData, 5 * 60 * 1000); // Refresh every 5 minutes
-
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, []);
-
-  if (loading) {
+  if (historyQuery.isLoading) {
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
         <div className="h-64 flex flex-col items-center justify-center">
@@ -112,7 +66,9 @@ export function TVLChart() {
     );
   }
 
-  if (error || !tvlHistory.length) {
+  if (!tvlHistory.length) {
+    const errorState = error ? describeApiError(error, 'Unable to load TVL data. Please try again later.') : null;
+
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
         <div className="flex justify-between items-center mb-6">
@@ -127,26 +83,19 @@ export function TVLChart() {
           </div>
         </div>
         <div className="h-64 flex flex-col items-center justify-center">
-          <AlertTriangle className="h-12 w-12 text-yellow-500 mb-4" />
-          <p className="text-gray-600 dark:text-gray-300 text-center mb-4">
-            {error || 'No TVL data available at the moment'}
+          <ErrorIcon kind={errorState?.kind ?? 'unknown'} className="h-12 w-12 text-yellow-500 mb-4" />
+          {errorState && (
+            <p className="font-medium text-gray-900 dark:text-white mb-1">{errorState.title}</p>
+          )}
+          <p className="text-gray-600 dark:text-gray-300 text-center mb-4 break-words">
+            {errorState?.message ?? 'No TVL data available at the moment'}
           </p>
           <button 
-            onClick={fetchData}
-            disabled={retrying}
+            onClick={refetch}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {retrying ? (
-              <>
-                <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                Retrying...
-              </>
-            ) : (
-              <>
-                <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
-                Retry
-              </>
-            )}
+            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            Retry
           </button>
         </div>
       </div>
@@ -160,7 +109,7 @@ export function TVLChart() {
     datasets: [
       {
         label: 'Total Value Locked (TVL)',
-        data: tvlHistory.map(item => item.tvl),
+        data: tvlHistory.map(item => item.tvl * scale.factor),
         fill: true,
         borderColor: isDark ? 'rgb(96, 165, 250)' : 'rgb(59, 130, 246)',
         backgroundColor: isDark ? 'rgba(96, 165, 250, 0.2)' : 'rgba(59, 130, 246, 0.1)',
@@ -190,7 +139,7 @@ export function TVLChart() {
         boxPadding: 4,
         callbacks: {
           label: (context: any) => {
-            return `TVL: $${context.parsed.y.toLocaleString()}`;
+            return `TVL: ${formatScaled(context.parsed.y, scale)}`;
           },
         },
       },
@@ -218,7 +167,7 @@ export function TVLChart() {
           font: {
             size: 11,
           },
-          callback: (value: any) => `$${value.toLocaleString()}`,
+          callback: (value: any) => formatScaled(value, scale, { compact: true }),
         },
       },
     },
@@ -233,21 +182,39 @@ export function TVLChart() {
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Total Value Locked (TVL)</h3>
           </div>
           {tvlHealth && (
-            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 flex items-center gap-3">
               Last updated: {format(new Date(tvlHealth.lastUpdate), 'MMM d, h:mm a')}
+              <RefreshIndicator
+                isRefreshing={historyQuery.isRefreshing}
+                isStale={historyQuery.isStale}
+                lastUpdated={historyQuery.lastUpdated}
+                className="text-gray-400 dark:text-gray-500"
+              />
             </p>
           )}
-        </div>
-        {tvlHealth && (
-          <div className="text-right">
-            <p className="text-2xl font-bold text-gray-900 dark:text-white">
-              ${tvlHealth.tvl.toLocaleString()}
-            </p>
-            <p className={`text-sm ${tvlHealth.status === 'healthy' ? 'text-green-500 dark:text-green-400' : 'text-yellow-500 dark:text-yellow-400'}`}>
-              {tvlHealth.status === 'healthy' ? 'Data is current' : 'Data is stale'}
+          {error != null && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+              {describeApiError(error, 'Failed to refresh TVL data').title}, showing cached data
             </p>
-          </div>
-        )}
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {tvlHealth && (
+            <div className="text-right">
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                {formatScaled(tvlHealth.tvl * scale.factor, scale)}
+              </p>
+              <p className={`text-sm ${tvlHealth.status === 'healthy' ? 'text-green-500 dark:text-green-400' : 'text-yellow-500 dark:text-yellow-400'}`}>
+                {tvlHealth.status === 'healthy' ? 'Data is current' : 'Data is stale'}
+              </p>
+            </div>
+          )}
+          <ChartExportMenu
+            name="tvl"
+            targetRef={plotRef}
+            getRows={() => tvlHistory.map(item => ({ date: new Date(item.date * 1000).toISOString(), tvlUsd: item.tvl }))}
+          />
+        </div>
       </div>
 
       <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mb-6 flex items-start gap-2">
@@ -259,7 +226,7 @@ export function TVLChart() {
         </div>
       </div>
 
-      <div className="h-64">
+      <div ref={plotRef} className="h-64">
         <Line data={data} options={options} />
       </div>
     </div>
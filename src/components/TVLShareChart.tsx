@@ -0,0 +1,250 @@
+import { useMemo, useRef, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import { format } from 'date-fns';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js';
+import { PieChart, RefreshCw } from 'lucide-react';
+import { useTheme } from '../hooks/useTheme';
+import { useTVLBreakdown } from '../hooks/useApiQuery';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { formatScaled } from '../lib/displayUnit';
+import { getTVLColor, getTVLShareSeries, TVL_OTHER_COLOR } from '../lib/tvl';
+import { cn } from '../lib/utils';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { RefreshIndicator } from './RefreshIndicator';
+import { ChartExportMenu } from './ChartExportMenu';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+);
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+const HISTORY_DAYS = 30;
+
+type ShareMode = 'share' | 'value';
+
+// Stacked area of each chain's TVL over time, as a share of the total or in the selected unit
+export function TVLShareChart() {
+  const { theme } = useTheme();
+  const { registry } = useChainRegistry();
+  const query = useTVLBreakdown(HISTORY_DAYS, { refreshInterval: REFRESH_INTERVAL });
+  // Chains hold different tokens, so the stacked total is in AVAX when the native unit is selected
+  const scale = useDisplayUnit().usdScale();
+  const [mode, setMode] = useState<ShareMode>('share');
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const breakdown = useMemo(() => query.data ?? [], [query.data]);
+  const series = useMemo(() => getTVLShareSeries(breakdown), [breakdown]);
+  const isDark = theme === 'dark';
+
+  const labelFor = (chainId: string | null) =>
+    chainId === null ? 'Other' : registry.byChainId(chainId)?.chainName ?? chainId;
+
+  const header = (
+    <div className="flex justify-between items-start gap-4 mb-6">
+      <div>
+        <div className="flex items-center gap-2">
+          <PieChart className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">TVL by Chain</h3>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 flex items-center gap-3">
+          Last {HISTORY_DAYS} days
+          <RefreshIndicator
+            isRefreshing={query.isRefreshing}
+            isStale={query.isStale}
+            lastUpdated={query.lastUpdated}
+            className="text-gray-400 dark:text-gray-500"
+          />
+        </p>
+      </div>
+      {series.length > 0 && (
+        <div className="flex items-center gap-3">
+          <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden text-sm">
+            {(['share', 'value'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                aria-pressed={mode === option}
+                className={cn(
+                  'px-3 py-1 transition-colors',
+                  mode === option
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-700'
+                )}
+              >
+                {option === 'share' ? 'Share' : 'Value'}
+              </button>
+            ))}
+          </div>
+          <ChartExportMenu
+            name="tvl-by-chain"
+            targetRef={plotRef}
+            getRows={() => breakdown.flatMap(snapshot => snapshot.chains.map(chain => ({
+              date: new Date(snapshot.date * 1000).toISOString(),
+              chainId: chain.chainId,
+              chainName: labelFor(chain.chainId),
+              tvlUsd: chain.tvl,
+              share: snapshot.tvl > 0 ? chain.tvl / snapshot.tvl : 0,
+            })))}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  if (query.isLoading) {
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+        <div className="h-72 flex flex-col items-center justify-center">
+          <RefreshCw className="h-12 w-12 text-blue-500 animate-spin mb-4" />
+          <p className="text-gray-600 dark:text-gray-300">Loading TVL by chain...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!series.length) {
+    const errorState = query.error ? describeApiError(query.error, 'Unable to load TVL by chain.') : null;
+
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+        {header}
+        <div className="h-72 flex flex-col items-center justify-center">
+          <ErrorIcon kind={errorState?.kind ?? 'unknown'} className="h-12 w-12 text-yellow-500 mb-4" />
+          {errorState && (
+            <p className="font-medium text-gray-900 dark:text-white mb-1">{errorState.title}</p>
+          )}
+          <p className="text-gray-600 dark:text-gray-300 text-center mb-4 break-words">
+            {errorState?.message ?? 'No per-chain TVL data available at the moment'}
+          </p>
+          <button
+            onClick={query.refetch}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+          >
+            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const data = {
+    labels: breakdown.map(snapshot => format(new Date(snapshot.date * 1000), 'MMM d')),
+    datasets: series.map((entry, index) => {
+      const color = entry.chainId === null
+        ? (isDark ? TVL_OTHER_COLOR.dark : TVL_OTHER_COLOR.light)
+        : getTVLColor(index, isDark);
+
+      return {
+        label: labelFor(entry.chainId),
+        data: entry.points.map(point => (mode === 'share' ? point.share * 100 : point.tvl * scale.factor)),
+        borderColor: color,
+        backgroundColor: color.replace('rgb(', 'rgba(').replace(')', ', 0.5)'),
+        borderWidth: 1,
+        fill: index === 0 ? 'origin' : '-1',
+        tension: 0.3,
+        pointRadius: 0,
+        pointHoverRadius: 4,
+      };
+    }),
+  };
+
+  const formatValue = (value: number) =>
+    mode === 'share' ? `${value.toFixed(1)}%` : formatScaled(value, scale, { compact: true });
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          boxWidth: 12,
+          font: {
+            size: 11,
+          },
+        },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        padding: 12,
+        boxPadding: 4,
+        itemSort: (a: { parsed: { y: number } }, b: { parsed: { y: number } }) => b.parsed.y - a.parsed.y,
+        callbacks: {
+          label: (context: { dataset: { label?: string }; parsed: { y: number } }) =>
+            `${context.dataset.label}: ${formatValue(context.parsed.y)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: {
+          display: false,
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          font: {
+            size: 11,
+          },
+        },
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        max: mode === 'share' ? 100 : undefined,
+        grid: {
+          color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)',
+        },
+        ticks: {
+          color: isDark ? '#94a3b8' : '#64748b',
+          font: {
+            size: 11,
+          },
+          callback: (value: number | string) => formatValue(Number(value)),
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+      {header}
+      {query.error != null && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 -mt-4 mb-4">
+          {describeApiError(query.error, 'Failed to refresh TVL by chain').title}, showing cached data
+        </p>
+      )}
+      <div ref={plotRef} className="h-72">
+        <Line data={data} options={options} />
+      </div>
+    </div>
+  );
+}
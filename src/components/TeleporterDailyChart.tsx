@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { Line } from 'react-chartjs-2';
 import { format, parseISO } from 'date-fns';
 import {
@@ -12,11 +12,16 @@ import {
   Legend,
   Filler
 } from 'chart.js';
-import { TeleporterDailyData, TimeframeOption } from '../types';
-import { getTeleporterDailyHistory } from '../api';
+import { TimeframeOption } from '../types';
 import { useTheme } from '../hooks/useTheme';
+import { useTeleporterDailyHistory } from '../hooks/useApiQuery';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { RefreshIndicator } from './RefreshIndicator';
+import { ChartExportMenu } from './ChartExportMenu';
+import { EXPORT_BACKGROUNDS } from '../lib/chartExport';
 import { useMediaQuery, breakpoints } from '../hooks/useMediaQuery';
-import { AlertTriangle, MessageSquare, RefreshCw } from 'lucide-react';
+import { MessageSquare, RefreshCw } from 'lucide-react';
 import { GlowingEffect } from './ui/glowing-effect';
 import { cn } from '../lib/utils';
 
@@ -31,57 +36,24 @@ ChartJS.register(
   Filler
 );
 
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+
 export function TeleporterDailyChart() {
   const { theme } = useTheme();
-  const [dailyData, setDailyData] = useState<TeleporterDailyData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
   const [timeframe, setTimeframe] = useState<TimeframeOption>(7);
+  const dailyQuery = useTeleporterDailyHistory(timeframe, { refreshInterval: REFRESH_INTERVAL });
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const dailyData = useMemo(
+    () => [...(dailyQuery.data ?? [])].sort((a, b) => a.dateString.localeCompare(b.dateString)),
+    [dailyQuery.data]
+  );
+  const error = dailyQuery.error;
 
   const isDark = theme === 'dark';
   const isMobile = useMediaQuery(breakpoints.sm);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      setRetrying(true);
-
-      const data = await getTeleporterDailyHistory(timeframe);
-
-      if (data.length > 0) {
-        setDailyData(data.sort((a, b) => a.dateString.localeCompare(b.dateString)));
-      } else {
-        throw new Error('No daily message data available');
-      }
-    } catch (err) {
-      console.error('Failed to fetch daily message data:', err);
-      setError('Failed to load daily message data');
-    } finally {
-      setLoading(false);
-      setRetrying(false);
-    }
-  };
-
-  useEffect(() => {
-    let mounted = true;
-
-    const loadData = async () => {
-      if (!mounted) return;
-      await fetchData();
-    };
-
-    loadData();
-    const interval = setInterval(loadData, 15 * 60 * 1000);
-
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, [timeframe]);
-
-  if (loading) {
+  if (dailyQuery.isLoading) {
     return (
       <div className="relative h-full">
         <div className="relative h-full rounded-xl border-[0.5px] border-white/10 dark:border-white/5 p-1">
@@ -110,7 +82,9 @@ export function TeleporterDailyChart() {
     );
   }
 
-  if (error || !dailyData.length) {
+  if (!dailyData.length) {
+    const errorState = error ? describeApiError(error, 'Failed to load daily message data') : null;
+
     return (
       <div className="relative h-full">
         <div className="relative h-full rounded-xl border-[0.5px] border-white/10 dark:border-white/5 p-1">
@@ -135,26 +109,19 @@ export function TeleporterDailyChart() {
                 <h3 className="text-lg font-semibold text-white">Daily Message Volume</h3>
               </div>
               <div className="h-[300px] sm:h-[400px] flex flex-col items-center justify-center">
-                <AlertTriangle className="h-12 w-12 text-amber-400 mb-4" />
-                <p className="text-white/60 text-center mb-4">
-                  {error || 'No daily message data available'}
+                <ErrorIcon kind={errorState?.kind ?? 'unknown'} className="h-12 w-12 text-amber-400 mb-4" />
+                {errorState && (
+                  <p className="font-medium text-white mb-1">{errorState.title}</p>
+                )}
+                <p className="text-white/60 text-center mb-4 break-words">
+                  {errorState?.message ?? 'No daily message data available'}
                 </p>
                 <button
-                  onClick={fetchData}
-                  disabled={retrying}
+                  onClick={dailyQuery.refetch}
                   className="inline-flex items-center px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white backdrop-blur-sm border border-white/20 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {retrying ? (
-                    <>
-                      <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                      Retrying...
-                    </>
-                  ) : (
-                    <>
-                      <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
-                      Retry
-                    </>
-                  )}
+                  <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+                  Retry
                 </button>
               </div>
             </div>
@@ -287,9 +254,20 @@ export function TeleporterDailyChart() {
                     <MessageSquare className="w-5 h-5 text-white/80" />
                     <h3 className="text-lg font-semibold text-white">Daily Message Volume</h3>
                   </div>
-                  <p className="text-sm text-white/60 mt-1">
+                  <p className="text-sm text-white/60 mt-1 flex items-center gap-3">
                     Last updated: {format(parseISO(latestData.date), 'MMM d, h:mm a')}
+                    <RefreshIndicator
+                      isRefreshing={dailyQuery.isRefreshing}
+                      isStale={dailyQuery.isStale}
+                      lastUpdated={dailyQuery.lastUpdated}
+                      className="text-white/50"
+                    />
                   </p>
+                  {error != null && (
+                    <p className="text-xs text-amber-400 mt-1">
+                      {describeApiError(error, 'Failed to refresh daily message data').title}, showing cached data
+                    </p>
+                  )}
                 </div>
 
                 <div className="flex flex-col sm:flex-row sm:items-center gap-3">
@@ -322,6 +300,18 @@ export function TeleporterDailyChart() {
                       30D
                     </button>
                   </div>
+                  {/* The card's text is white in both themes, so the image stays dark */}
+                  <ChartExportMenu
+                    name={`teleporter-daily-messages-${timeframe}d`}
+                    targetRef={plotRef}
+                    getRows={() => dailyData.map(item => ({
+                      date: item.dateString,
+                      totalMessages: item.totalMessages,
+                      timeWindowHours: item.timeWindow,
+                    }))}
+                    background={EXPORT_BACKGROUNDS.dark}
+                    className="text-white/60 hover:text-white hover:bg-white/10 dark:text-white/60 dark:hover:text-white dark:hover:bg-white/10"
+                  />
                 </div>
               </div>
 
@@ -335,7 +325,7 @@ export function TeleporterDailyChart() {
               </div>
             </div>
 
-            <div className="h-[300px] sm:h-[400px] bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-3">
+            <div ref={plotRef} className="h-[300px] sm:h-[400px] bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-3">
               <Line data={data} options={options} />
             </div>
           </div>
@@ -3,26 +3,19 @@ import * as d3 from 'd3';
 import { format } from 'date-fns';
 import { RefreshCw, AlertTriangle, MessageSquare, Activity, Clock, Network, Server } from 'lucide-react';
 import { useTheme } from '../hooks/useTheme';
+import { useTeleporterMessages, useTeleporterDailyHistory } from '../hooks/useApiQuery';
+import { config } from '../config';
+import { TeleporterDailyData, TeleporterMessageData } from '../types';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from './ErrorIcon';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useChainResolver } from '../hooks/useChainResolver';
+import { RefreshIndicator } from './RefreshIndicator';
+import { ChartExportMenu } from './ChartExportMenu';
 import { useNavigate } from 'react-router-dom';
 import { GlowingEffect } from './ui/glowing-effect';
 import { cn } from '../lib/utils';
 
-// Get API base URL from environment variables
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001';
-
-// Import the API function to get chains with logos
-const getChains = async () => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/chains`);
-    if (!response.ok) throw new Error('Failed to fetch chains');
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error fetching chains:', error);
-    return [];
-  }
-};
-
 interface TeleporterMessage {
   source: string;
   target: string;
@@ -39,6 +32,109 @@ interface TeleporterData {
   };
 }
 
+type Timeframe = 'daily' | 'weekly';
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+const WEEKLY_DAYS = 7;
+
+// Daily view: message counts for the last 24 hours
+function fromDailyCounts(data: TeleporterMessageData): TeleporterData {
+  return {
+    messages: data.messages.map(msg => ({ source: msg.source, target: msg.target, value: msg.count })),
+    metadata: {
+      totalMessages: data.metadata.totalMessages,
+      timeWindow: 24,
+      timeWindowUnit: 'hours',
+      updatedAt: data.metadata.updatedAt,
+    },
+  };
+}
+
+// Weekly view: sum every source/target pair across the daily history
+function fromDailyHistory(history: TeleporterDailyData[], fetchedAt: number): TeleporterData {
+  const totals = new Map<string, TeleporterMessage>();
+
+  history.forEach(day => {
+    day.data.forEach(flow => {
+      const key = `${flow.sourceChain}->${flow.destinationChain}`;
+      const existing = totals.get(key);
+      if (existing) {
+        existing.value += flow.messageCount;
+      } else {
+        totals.set(key, { source: flow.sourceChain, target: flow.destinationChain, value: flow.messageCount });
+      }
+    });
+  });
+
+  return {
+    messages: Array.from(totals.values()),
+    metadata: {
+      totalMessages: history.reduce((sum, day) => sum + day.totalMessages, 0),
+      timeWindow: history.length,
+      timeWindowUnit: 'days',
+      updatedAt: new Date(fetchedAt).toISOString(),
+    },
+  };
+}
+
+// Fictional flows for demos (VITE_DEMO_MODE=true), never shown against the live API
+function generateSampleData(timeframe: Timeframe): TeleporterData {
+  const chains = [
+    'Avalanche (C-Chain)', 'Henesys', 'Dexalot L1', 'zeroone Mainnet L1',
+    'Lamina1 L1', 'PLYR PHI L1', 'cognet', 'NUMINE Mainnet', 'KOROSHI L1',
+    'StratosX L1', 'Nexus L1', 'Velocity Chain', 'Quantum L1', 'Echo Network',
+    'Pulse Chain', 'Infinity L1', 'Matrix Network', 'Stellar L1', 'Nova Chain',
+    'Cosmos L1', 'Orbit Network', 'Flux Chain', 'Prism L1', 'Vertex Network'
+  ];
+
+  const messages: TeleporterMessage[] = [];
+
+  // High volume pairs
+  messages.push(
+    { source: 'Henesys', target: 'Avalanche (C-Chain)', value: 5785 },
+    { source: 'Avalanche (C-Chain)', target: 'Henesys', value: 6065 },
+    { source: 'Dexalot L1', target: 'Avalanche (C-Chain)', value: 2436 },
+    { source: 'Avalanche (C-Chain)', target: 'Dexalot L1', value: 2993 }
+  );
+
+  // Medium volume pairs
+  chains.slice(4, 12).forEach((chain, i) => {
+    messages.push(
+      { source: chain, target: 'Avalanche (C-Chain)', value: 150 - i * 15 },
+      { source: 'Avalanche (C-Chain)', target: chain, value: 120 - i * 10 }
+    );
+  });
+
+  // Low volume pairs
+  chains.slice(12).forEach((chain, i) => {
+    messages.push(
+      { source: chain, target: 'Avalanche (C-Chain)', value: Math.max(1, 28 - i * 2) },
+      { source: 'Avalanche (C-Chain)', target: chain, value: Math.max(1, 22 - i * 2) }
+    );
+  });
+
+  // Some cross-chain communication
+  for (let i = 0; i < 15; i++) {
+    const source = chains[Math.floor(Math.random() * chains.length)];
+    const target = chains[Math.floor(Math.random() * chains.length)];
+    if (source !== target) {
+      messages.push({ source, target, value: Math.floor(Math.random() * 50) + 1 });
+    }
+  }
+
+  const totalMessages = messages.reduce((sum, msg) => sum + msg.value, 0);
+
+  return {
+    messages,
+    metadata: {
+      totalMessages,
+      timeWindow: timeframe === 'daily' ? 24 : 7,
+      timeWindowUnit: timeframe === 'daily' ? 'hours' : 'days',
+      updatedAt: new Date().toISOString()
+    }
+  };
+}
+
 interface GraphNode extends d3.SimulationNodeDatum {
   id: string;
   name: string;
@@ -59,46 +155,52 @@ interface GraphLink extends d3.SimulationLinkDatum<GraphNode> {
 
 export function TeleporterForceDirectedGraph() {
   const navigate = useNavigate();
-  const [data, setData] = useState<TeleporterData | null>(null);
-  const [chains, setChains] = useState<any[]>([]); // Add chains state for API data
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { registry } = useChainRegistry();
+  const resolver = useChainResolver();
+  const chains = registry.chains;
   const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
   const [hoveredLink, setHoveredLink] = useState<GraphLink | null>(null);
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
-  const [timeframe, setTimeframe] = useState<'daily' | 'weekly'>('daily');
+  const [timeframe, setTimeframe] = useState<Timeframe>('daily');
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
 
+  // Only the query for the selected timeframe runs, demo mode runs neither
+  const dailyQuery = useTeleporterMessages({
+    refreshInterval: REFRESH_INTERVAL,
+    enabled: !config.demoMode && timeframe === 'daily',
+  });
+  const weeklyQuery = useTeleporterDailyHistory(WEEKLY_DAYS, {
+    refreshInterval: REFRESH_INTERVAL,
+    enabled: !config.demoMode && timeframe === 'weekly',
+  });
+  const activeQuery = timeframe === 'daily' ? dailyQuery : weeklyQuery;
+
+  const data = React.useMemo<TeleporterData | null>(() => {
+    if (config.demoMode) return generateSampleData(timeframe);
+    if (timeframe === 'daily') return dailyQuery.data ? fromDailyCounts(dailyQuery.data) : null;
+    return weeklyQuery.data ? fromDailyHistory(weeklyQuery.data, weeklyQuery.lastUpdated ?? Date.now()) : null;
+  }, [timeframe, dailyQuery.data, weeklyQuery.data, weeklyQuery.lastUpdated]);
+
+  const loading = activeQuery.isLoading;
+  const error = data ? null : activeQuery.error;
+  const periodLabel = timeframe === 'daily' ? 'the last 24 hours' : `the last ${WEEKLY_DAYS} days`;
+
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const simulationRef = useRef<d3.Simulation<GraphNode, GraphLink> | null>(null);
   const { theme } = useTheme();
 
-  // Function to format chain names for better readability
-  const formatChainName = (name: string) => {
+  // Short labels come from the alias table, e.g. 'Avalanche (C-Chain)' -> 'C-Chain'
+  const formatChainName = useCallback((name: string) => {
     if (!name) return 'Unknown';
-    if (name === 'Avalanche (C-Chain)') return 'C-Chain';
-    if (name === 'Dexalot L1') return 'Dexalot';
-    if (name === 'zeroone Mainnet L1') return 'ZeroOne';
-    if (name === 'Lamina1 L1') return 'Lamina1';
-    if (name === 'PLYR PHI L1') return 'PLYR';
-    return name.length > 15 ? name.substring(0, 15) + '...' : name;
-  };
+    const label = resolver.shortName(name);
+    return label.length > 15 ? label.substring(0, 15) + '...' : label;
+  }, [resolver]);
 
-  // Get chain logo URL from API data (same as Network Topology)
+  // Get chain logo URL from the shared chain registry (same as Network Topology)
   const getChainLogo = (chainName: string) => {
-    // First check if we have API data for this chain
-    const chainData = chains.find(chain =>
-      chain.chainName === chainName ||
-      chain.chainId === chainName
-    );
-
-    if (chainData && chainData.chainLogoUri) {
-      return chainData.chainLogoUri;
-    }
-
     // Return null if no logo (same as Network Topology)
-    return null;
+    return registry.find(chainName)?.chainLogoUri ?? null;
   };
 
   // Generate a consistent color for a chain
@@ -132,16 +234,44 @@ export function TeleporterForceDirectedGraph() {
     return `hsl(${h}, ${s}, ${l})`;
   }, [theme]);
 
+  // Map Teleporter chain names onto registry chains, merging flows reported under different aliases
+  const { messages, unresolvedChains } = React.useMemo(() => {
+    if (!data) return { messages: [], unresolvedChains: [] };
+
+    const canonicalName = (name: string) => resolver.resolve(name)?.chainName ?? name;
+    const merged = new Map<string, TeleporterMessage>();
+
+    data.messages.forEach(msg => {
+      const source = canonicalName(msg.source);
+      const target = canonicalName(msg.target);
+      const key = `${source}->${target}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.value += msg.value;
+      } else {
+        merged.set(key, { source, target, value: msg.value });
+      }
+    });
+
+    return {
+      messages: Array.from(merged.values()),
+      unresolvedChains: resolver.findUnresolved(data.messages.flatMap(msg => [msg.source, msg.target])),
+    };
+  }, [data, resolver]);
+
+  // Sample chains never resolve, and nothing resolves until the registry has loaded
+  const showUnresolved = !config.demoMode && registry.chains.length > 0 && unresolvedChains.length > 0;
+
   // Transform data into graph nodes and links
   const graphData = React.useMemo(() => {
-    if (!data || !data.messages.length) {
+    if (!messages.length) {
       return { nodes: [], links: [] };
     }
 
     // Collect all unique chains and their message totals
     const chainMap = new Map<string, number>();
 
-    data.messages.forEach(msg => {
+    messages.forEach(msg => {
       chainMap.set(msg.source, (chainMap.get(msg.source) || 0) + msg.value);
       chainMap.set(msg.target, (chainMap.get(msg.target) || 0) + msg.value);
     });
@@ -180,8 +310,8 @@ export function TeleporterForceDirectedGraph() {
     });
 
     // Create links (only for non-zero messages)
-    const maxLinkValue = Math.max(...data.messages.map(msg => msg.value), 1);
-    const links: GraphLink[] = data.messages
+    const maxLinkValue = Math.max(...messages.map(msg => msg.value), 1);
+    const links: GraphLink[] = messages
       .filter(msg => msg.value > 0)
       .map(msg => {
         const source = nodes.find(n => n.id === msg.source)!;
@@ -204,7 +334,7 @@ export function TeleporterForceDirectedGraph() {
       });
 
     return { nodes, links };
-  }, [data, getChainColor, chains]);
+  }, [messages, getChainColor, formatChainName, chains]);
 
   // Initialize and update the force simulation
   const initializeSimulation = useCallback(() => {
@@ -528,89 +658,6 @@ export function TeleporterForceDirectedGraph() {
 
   }, [graphData, theme, selectedNode, chains]);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Fetch chains data (for logos) and generate sample teleporter data
-      const chainsData = await getChains();
-      const sampleData = generateSampleData();
-
-      setChains(chainsData);
-      setData(sampleData);
-    } catch (err) {
-      console.error(`Failed to fetch ${timeframe} data:`, err);
-      setError(`Failed to load ${timeframe} data`);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Generate comprehensive sample data
-  const generateSampleData = (): TeleporterData => {
-    const chains = [
-      'Avalanche (C-Chain)', 'Henesys', 'Dexalot L1', 'zeroone Mainnet L1',
-      'Lamina1 L1', 'PLYR PHI L1', 'cognet', 'NUMINE Mainnet', 'KOROSHI L1',
-      'StratosX L1', 'Nexus L1', 'Velocity Chain', 'Quantum L1', 'Echo Network',
-      'Pulse Chain', 'Infinity L1', 'Matrix Network', 'Stellar L1', 'Nova Chain',
-      'Cosmos L1', 'Orbit Network', 'Flux Chain', 'Prism L1', 'Vertex Network'
-    ];
-
-    const messages: TeleporterMessage[] = [];
-
-    // High volume pairs (like your real data)
-    messages.push(
-      { source: 'Henesys', target: 'Avalanche (C-Chain)', value: 5785 },
-      { source: 'Avalanche (C-Chain)', target: 'Henesys', value: 6065 },
-      { source: 'Dexalot L1', target: 'Avalanche (C-Chain)', value: 2436 },
-      { source: 'Avalanche (C-Chain)', target: 'Dexalot L1', value: 2993 }
-    );
-
-    // Medium volume pairs
-    chains.slice(4, 12).forEach((chain, i) => {
-      messages.push(
-        { source: chain, target: 'Avalanche (C-Chain)', value: 150 - i * 15 },
-        { source: 'Avalanche (C-Chain)', target: chain, value: 120 - i * 10 }
-      );
-    });
-
-    // Low volume pairs
-    chains.slice(12).forEach((chain, i) => {
-      messages.push(
-        { source: chain, target: 'Avalanche (C-Chain)', value: Math.max(1, 28 - i * 2) },
-        { source: 'Avalanche (C-Chain)', target: chain, value: Math.max(1, 22 - i * 2) }
-      );
-    });
-
-    // Some cross-chain communication
-    for (let i = 0; i < 15; i++) {
-      const source = chains[Math.floor(Math.random() * chains.length)];
-      const target = chains[Math.floor(Math.random() * chains.length)];
-      if (source !== target) {
-        messages.push({ source, target, value: Math.floor(Math.random() * 50) + 1 });
-      }
-    }
-
-    const totalMessages = messages.reduce((sum, msg) => sum + msg.value, 0);
-
-    return {
-      messages,
-      metadata: {
-        totalMessages,
-        timeWindow: timeframe === 'daily' ? 24 : 7,
-        timeWindowUnit: timeframe === 'daily' ? 'hours' : 'days',
-        updatedAt: new Date().toISOString()
-      }
-    };
-  };
-
-  useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 15 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [timeframe]);
-
   useEffect(() => {
     initializeSimulation();
 
@@ -674,7 +721,9 @@ export function TeleporterForceDirectedGraph() {
     );
   }
 
-  if (!data || error) {
+  if (!data || !data.messages.length) {
+    const errorState = error ? describeApiError(error, 'Failed to load Teleporter messages') : null;
+
     return (
       <div className="relative h-full">
         <div className="relative h-full rounded-xl border border-border p-2">
@@ -692,12 +741,15 @@ export function TeleporterForceDirectedGraph() {
             "bg-card text-card-foreground shadow-sm"
           )}>
             <div className="h-[500px] flex flex-col items-center justify-center">
-              <AlertTriangle className="h-12 w-12 text-destructive mb-4" />
-              <p className="text-muted-foreground text-center mb-4">
-                {error || 'No network data available'}
+              <ErrorIcon kind={errorState?.kind ?? 'unknown'} className="h-12 w-12 text-destructive mb-4" />
+              {errorState && (
+                <p className="font-medium text-foreground mb-1">{errorState.title}</p>
+              )}
+              <p className="text-muted-foreground text-center mb-4 break-words">
+                {errorState?.message ?? `No Teleporter messages in ${periodLabel}`}
               </p>
               <button
-                onClick={fetchData}
+                onClick={activeQuery.refetch}
                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-primary-foreground bg-primary hover:bg-primary/90"
               >
                 <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
@@ -737,6 +789,18 @@ export function TeleporterForceDirectedGraph() {
                 <h3 className="text-lg font-semibold text-foreground">
                   Network Flow Graph
                 </h3>
+                {config.demoMode ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-500/15 text-amber-600 dark:text-amber-400">
+                    Sample data
+                  </span>
+                ) : (
+                  <RefreshIndicator
+                    isRefreshing={activeQuery.isRefreshing}
+                    isStale={activeQuery.isStale}
+                    lastUpdated={activeQuery.lastUpdated}
+                    className="text-muted-foreground"
+                  />
+                )}
               </div>
 
               <div className="flex items-center gap-3">
@@ -763,12 +827,24 @@ export function TeleporterForceDirectedGraph() {
                 </div>
 
                 <button
-                  onClick={fetchData}
+                  onClick={activeQuery.refetch}
                   className="p-1.5 rounded-full bg-secondary text-secondary-foreground hover:bg-accent hover:text-accent-foreground transition-colors"
                   title="Refresh data"
                 >
                   <RefreshCw className="w-4 h-4" />
                 </button>
+
+                <ChartExportMenu
+                  name={`teleporter-flows-${timeframe}`}
+                  targetRef={containerRef}
+                  getRows={() => graphData.links.map(link => ({
+                    source: link.source.name,
+                    target: link.target.name,
+                    messages: link.value,
+                  }))}
+                  formats={['png', 'svg', 'csv', 'json']}
+                  className="rounded-full bg-secondary text-secondary-foreground hover:bg-accent hover:text-accent-foreground dark:text-secondary-foreground dark:hover:text-accent-foreground dark:hover:bg-accent"
+                />
               </div>
             </div>
 
@@ -865,6 +941,28 @@ export function TeleporterForceDirectedGraph() {
                 </span>
               </div>
             </div>
+
+            {/* Teleporter names that match no known chain, shown by name in the graph */}
+            {showUnresolved && (
+              <div className="mt-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10">
+                <div className="flex items-center gap-2 mb-2">
+                  <AlertTriangle className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+                  <span className="text-xs font-medium text-amber-700 dark:text-amber-300">
+                    Unresolved chains ({unresolvedChains.length})
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {unresolvedChains.map(name => (
+                    <span
+                      key={name}
+                      className="px-2 py-0.5 rounded-full text-xs bg-background text-muted-foreground border border-border"
+                    >
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,159 @@
+import { useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import * as d3 from 'd3';
+
+export interface BrushPoint {
+  x: number;
+  y: number;
+}
+
+interface TimeRangeBrushProps {
+  points: BrushPoint[]; // Sorted by x
+  selection: [number, number] | null; // Visible x range, null for everything
+  onChange: (selection: [number, number] | null) => void;
+  color: string;
+  fill: string;
+}
+
+type DragMode = 'create' | 'move' | 'start' | 'end';
+
+interface DragState {
+  mode: DragMode;
+  origin: number; // Fraction where the drag started
+  initial: [number, number];
+}
+
+// Narrowest window the brush can be dragged down to, as a fraction of the width
+const MIN_WIDTH = 0.01;
+const VIEWBOX_WIDTH = 100;
+const VIEWBOX_HEIGHT = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Overview strip under a time series: drag to select a window, drag the window to pan, drag its edges to resize.
+// The full range shows no window until one is selected.
+export function TimeRangeBrush({ points, selection, onChange, color, fill }: TimeRangeBrushProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Window being dragged, committed on release so the main chart only redraws once
+  const [draft, setDraft] = useState<[number, number] | null>(null);
+
+  const extent: [number, number] | null = points.length > 1 ? [points[0].x, points[points.length - 1].x] : null;
+
+  const paths = useMemo(() => {
+    if (points.length < 2) return null;
+    const x = d3.scaleLinear().domain([points[0].x, points[points.length - 1].x]).range([0, VIEWBOX_WIDTH]);
+    const y = d3.scaleLinear().domain([0, d3.max(points, point => point.y) || 1]).range([VIEWBOX_HEIGHT, 2]);
+
+    return {
+      area: d3.area<BrushPoint>().x(point => x(point.x)).y0(VIEWBOX_HEIGHT).y1(point => y(point.y))(points) ?? '',
+      line: d3.line<BrushPoint>().x(point => x(point.x)).y(point => y(point.y))(points) ?? '',
+    };
+  }, [points]);
+
+  if (!extent || !paths) return null;
+
+  const span = extent[1] - extent[0];
+  const toFraction = (value: number) => clamp((value - extent[0]) / span, 0, 1);
+  const fromFraction = (fraction: number) => extent[0] + fraction * span;
+
+  const committed: [number, number] = selection ? [toFraction(selection[0]), toFraction(selection[1])] : [0, 1];
+  const [start, end] = draft ?? committed;
+
+  const pointerFraction = (event: ReactPointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return clamp((event.clientX - rect.left) / rect.width, 0, 1);
+  };
+
+  const beginDrag = (mode: DragMode) => (event: ReactPointerEvent) => {
+    event.stopPropagation();
+    containerRef.current?.setPointerCapture(event.pointerId);
+    const origin = pointerFraction(event);
+    dragRef.current = { mode, origin, initial: [start, end] };
+    setDraft(mode === 'create' ? [origin, origin] : [start, end]);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const fraction = pointerFraction(event);
+    const [initialStart, initialEnd] = drag.initial;
+
+    switch (drag.mode) {
+      case 'create':
+        setDraft([Math.min(drag.origin, fraction), Math.max(drag.origin, fraction)]);
+        break;
+      case 'move': {
+        const width = initialEnd - initialStart;
+        const nextStart = clamp(initialStart + fraction - drag.origin, 0, 1 - width);
+        setDraft([nextStart, nextStart + width]);
+        break;
+      }
+      case 'start':
+        setDraft([clamp(fraction, 0, initialEnd - MIN_WIDTH), initialEnd]);
+        break;
+      case 'end':
+        setDraft([initialStart, clamp(fraction, initialStart + MIN_WIDTH, 1)]);
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || !draft) return;
+    setDraft(null);
+
+    const [nextStart, nextEnd] = draft;
+    // A click without a drag, or a window covering everything, shows the full range
+    if (nextEnd - nextStart < MIN_WIDTH || (nextStart <= 0 && nextEnd >= 1)) {
+      onChange(null);
+    } else {
+      onChange([fromFraction(nextStart), fromFraction(nextEnd)]);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-12 select-none touch-none cursor-crosshair rounded bg-gray-50 dark:bg-dark-700/50"
+      onPointerDown={beginDrag('create')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => onChange(null)}
+      role="group"
+      aria-label="Time range selector, drag to zoom and pan, double-click to reset"
+    >
+      <svg
+        viewBox={`0 0 ${VIEWBOX_WIDTH} ${VIEWBOX_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="absolute inset-0 w-full h-full"
+      >
+        <path d={paths.area} fill={fill} />
+        <path d={paths.line} fill="none" stroke={color} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      {/* Dim everything outside the window */}
+      <div className="absolute inset-y-0 left-0 bg-gray-500/20" style={{ width: `${start * 100}%` }} />
+      <div className="absolute inset-y-0 right-0 bg-gray-500/20" style={{ width: `${(1 - end) * 100}%` }} />
+
+      {(draft || selection) && (
+        <div
+          className="absolute inset-y-0 border-2 border-blue-500/70 rounded cursor-grab active:cursor-grabbing"
+          style={{ left: `${start * 100}%`, width: `${(end - start) * 100}%` }}
+          onPointerDown={beginDrag('move')}
+        >
+          <div
+            className="absolute inset-y-0 -left-1.5 w-3 cursor-ew-resize"
+            onPointerDown={beginDrag('start')}
+          />
+          <div
+            className="absolute inset-y-0 -right-1.5 w-3 cursor-ew-resize"
+            onPointerDown={beginDrag('end')}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
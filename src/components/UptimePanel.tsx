@@ -0,0 +1,200 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip } from 'chart.js';
+import { AlertTriangle, Clock } from 'lucide-react';
+import { Chain } from '../types';
+import { useTheme } from '../hooks/useTheme';
+import { ChartExportMenu } from './ChartExportMenu';
+import {
+  DEFAULT_UPTIME_THRESHOLD,
+  getUptimeStats,
+  UPTIME_HISTOGRAM_BINS,
+  UPTIME_THRESHOLDS,
+} from '../lib/uptime';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+// Validators listed under the threshold before "Show all"
+const COLLAPSED_ROWS = 10;
+
+interface UptimePanelProps {
+  chain: Chain;
+}
+
+export function UptimePanel({ chain }: UptimePanelProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [threshold, setThreshold] = useState(DEFAULT_UPTIME_THRESHOLD);
+  const [showAll, setShowAll] = useState(false);
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const stats = useMemo(() => getUptimeStats(chain.validators, threshold), [chain, threshold]);
+  const totalStake = useMemo(() => chain.validators.reduce((sum, v) => sum + v.weight, 0), [chain]);
+
+  if (!stats.reportedCount) {
+    return (
+      <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Uptime</h3>
+        <p className="text-gray-500 dark:text-gray-400">No validators on this chain report uptime.</p>
+      </div>
+    );
+  }
+
+  const data = {
+    labels: UPTIME_HISTOGRAM_BINS.map(bin => bin.label),
+    datasets: [{
+      data: stats.histogram,
+      // Bins entirely under the threshold miss rewards
+      backgroundColor: UPTIME_HISTOGRAM_BINS.map(bin => (bin.max <= threshold
+        ? isDark ? 'rgba(248, 113, 113, 0.8)' : 'rgba(239, 68, 68, 0.8)'
+        : isDark ? 'rgba(74, 222, 128, 0.8)' : 'rgba(34, 197, 94, 0.8)')),
+      borderRadius: 4,
+    }],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        padding: 12,
+        callbacks: {
+          label: (context: { parsed: { y: number } }) =>
+            `${context.parsed.y} validator${context.parsed.y === 1 ? '' : 's'}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b' },
+      },
+      y: {
+        beginAtZero: true,
+        grid: { color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)' },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', precision: 0 },
+      },
+    },
+  };
+
+  const tiles = [
+    {
+      label: 'Stake-weighted Uptime',
+      value: stats.weightedUptime !== null ? `${stats.weightedUptime.toFixed(2)}%` : 'N/A',
+    },
+    {
+      label: 'Average Uptime',
+      value: stats.averageUptime !== null ? `${stats.averageUptime.toFixed(2)}%` : 'N/A',
+    },
+    {
+      label: `Below ${threshold}%`,
+      value: `${stats.below.length} of ${stats.reportedCount}`,
+    },
+    {
+      label: 'Stake at Risk',
+      value: `${(stats.stakeAtRisk * 100).toFixed(2)}%`,
+    },
+  ];
+
+  const rows = showAll ? stats.below : stats.below.slice(0, COLLAPSED_ROWS);
+  const missingCount = chain.validators.length - stats.reportedCount;
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Uptime</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            Reward threshold
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="py-1.5 pl-3 pr-8 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-dark-800 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {UPTIME_THRESHOLDS.map(value => (
+                <option key={value} value={value}>{value}%</option>
+              ))}
+            </select>
+          </label>
+          <ChartExportMenu
+            name={`${chain.chainName}-uptime`}
+            targetRef={plotRef}
+            getRows={() => UPTIME_HISTOGRAM_BINS.map((bin, index) => ({
+              uptime: bin.label,
+              validators: stats.histogram[index],
+              belowThreshold: bin.max <= threshold,
+            }))}
+          />
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
+            <dt className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</dt>
+            <dd className="text-xl font-semibold text-gray-900 dark:text-white">{tile.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div ref={plotRef} className="lg:w-1/2 h-64">
+          <Bar data={data} options={options} />
+          {missingCount > 0 && (
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              {missingCount} validator{missingCount === 1 ? '' : 's'} without uptime data not shown
+            </p>
+          )}
+        </div>
+
+        <div className="lg:w-1/2">
+          <h4 className="flex items-center gap-2 font-medium text-gray-900 dark:text-white mb-2">
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+            Validators below {threshold}%
+          </h4>
+          {stats.below.length > 0 ? (
+            <>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700/50 text-sm">
+                {rows.map(validator => (
+                  <li key={validator.address} className="flex items-center justify-between gap-3 py-2">
+                    <Link
+                      to={`/chain/${chain.chainId}/validator/${encodeURIComponent(validator.address)}`}
+                      className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline truncate"
+                    >
+                      {validator.address}
+                    </Link>
+                    <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                      <span className="text-red-600 dark:text-red-400 font-medium">{validator.uptime.toFixed(2)}%</span>
+                      {' · '}
+                      {totalStake > 0 ? ((validator.weight / totalStake) * 100).toFixed(2) : '0.00'}% of stake
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {stats.below.length > COLLAPSED_ROWS && (
+                <button
+                  onClick={() => setShowAll(prev => !prev)}
+                  className="mt-2 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
+                >
+                  {showAll ? 'Show fewer' : `Show all ${stats.below.length}`}
+                </button>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Every reporting validator is at or above {threshold}%.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown, ArrowUp, Server } from 'lucide-react';
+import {
+  defaultValidatorDirection,
+  getSummaryStake,
+  ValidatorIndexFilters,
+  ValidatorSortKey,
+  ValidatorSummary,
+} from '../lib/validatorIndex';
+import { formatScaled } from '../lib/displayUnit';
+import { cn } from '../lib/utils';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+
+interface ValidatorIndexTableProps {
+  validators: ValidatorSummary[];
+  sort: ValidatorSortKey;
+  direction: ValidatorIndexFilters['direction'];
+  onSortChange: (update: Pick<ValidatorIndexFilters, 'sort' | 'direction'>) => void;
+}
+
+const ROW_HEIGHT = 56;
+const HEADER_HEIGHT = 40;
+const MAX_HEIGHT = 720;
+// Chain badges shown per row before collapsing into "+N"
+const MAX_CHAIN_BADGES = 4;
+
+// Shared by the header and every row so the columns line up
+const GRID_COLUMNS = 'grid grid-cols-[minmax(16rem,2fr)_5rem_minmax(16rem,3fr)_6rem_8rem_7rem] gap-4 items-center px-4';
+
+const COLUMNS: { label: string; sort?: ValidatorSortKey; align?: 'right' }[] = [
+  { label: 'NodeID', sort: 'nodeId' },
+  { label: 'L1s', sort: 'chains', align: 'right' },
+  { label: 'Chains' },
+  { label: 'Active', align: 'right' },
+  { label: 'Total Stake', sort: 'stake', align: 'right' },
+  { label: 'Avg Uptime', sort: 'uptime', align: 'right' },
+];
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+
+// Every NodeID across all chains, only the visible rows are rendered
+export function ValidatorIndexTable({ validators, sort, direction, onSortChange }: ValidatorIndexTableProps) {
+  const navigate = useNavigate();
+  const { tokenScale } = useDisplayUnit();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const virtualizer = useVirtualizer({
+    count: validators.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    // Rows start below the sticky header inside the scroll container
+    scrollMargin: HEADER_HEIGHT,
+    overscan: 10,
+  });
+
+  const handleSort = (column: ValidatorSortKey) => {
+    if (column === sort) {
+      onSortChange({ sort, direction: direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange({ sort: column, direction: defaultValidatorDirection(column) });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900/80 rounded-lg shadow-md border border-gray-200 dark:border-gray-800 overflow-hidden">
+      <div
+        ref={scrollRef}
+        className="overflow-auto"
+        style={{ maxHeight: MAX_HEIGHT }}
+        role="table"
+        aria-rowcount={validators.length}
+      >
+        <div className="min-w-[1040px]">
+          {/* Sticky header */}
+          <div
+            role="row"
+            style={{ height: HEADER_HEIGHT }}
+            className={cn(
+              GRID_COLUMNS,
+              'sticky top-0 z-10 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800',
+              'text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400'
+            )}
+          >
+            {COLUMNS.map(column => {
+              const isSorted = column.sort === sort;
+              const SortIcon = direction === 'asc' ? ArrowUp : ArrowDown;
+
+              return (
+                <div
+                  key={column.label}
+                  role="columnheader"
+                  aria-sort={isSorted ? (direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                  className={cn(column.align === 'right' && 'text-right')}
+                >
+                  {column.sort ? (
+                    <button
+                      onClick={() => handleSort(column.sort!)}
+                      className={cn(
+                        'inline-flex items-center gap-1 uppercase hover:text-gray-900 dark:hover:text-white',
+                        isSorted && 'text-gray-900 dark:text-white'
+                      )}
+                    >
+                      {column.label}
+                      {isSorted && <SortIcon className="w-3 h-3" />}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Virtualised rows */}
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(item => {
+              const summary = validators[item.index];
+              const nodePath = encodeURIComponent(summary.nodeId);
+              const hiddenCount = summary.memberships.length - MAX_CHAIN_BADGES;
+              const stake = getSummaryStake(summary, tokenScale);
+
+              return (
+                <div
+                  key={summary.nodeId}
+                  role="row"
+                  aria-rowindex={item.index + 1}
+                  onClick={() => navigate(`/chain/${summary.memberships[0].chain.chainId}/validator/${nodePath}`)}
+                  className={cn(
+                    GRID_COLUMNS,
+                    'absolute top-0 left-0 w-full cursor-pointer text-sm',
+                    'border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/60'
+                  )}
+                  style={{ height: item.size, transform: `translateY(${item.start - HEADER_HEIGHT}px)` }}
+                >
+                  <div role="cell" className="font-mono text-xs text-gray-900 dark:text-white truncate" title={summary.nodeId}>
+                    {summary.nodeId}
+                  </div>
+                  <div role="cell" className="text-right font-semibold text-gray-900 dark:text-white">
+                    {summary.memberships.length}
+                  </div>
+                  <div role="cell" className="flex items-center gap-1.5 min-w-0 overflow-hidden">
+                    {summary.memberships.slice(0, MAX_CHAIN_BADGES).map(({ chain }) => (
+                      <Link
+                        key={chain.chainId}
+                        to={`/chain/${chain.chainId}/validator/${nodePath}`}
+                        onClick={(e) => e.stopPropagation()}
+                        title={chain.chainName}
+                        className="inline-flex items-center gap-1 max-w-[9rem] px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300 hover:bg-blue-100 dark:hover:bg-blue-900/40"
+                      >
+                        {chain.chainLogoUri ? (
+                          <img src={chain.chainLogoUri} alt="" className="w-3.5 h-3.5 rounded flex-shrink-0" />
+                        ) : (
+                          <Server className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" />
+                        )}
+                        <span className="truncate">{chain.chainName}</span>
+                      </Link>
+                    ))}
+                    {hiddenCount > 0 && (
+                      <span
+                        className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0"
+                        title={summary.memberships.slice(MAX_CHAIN_BADGES).map(({ chain }) => chain.chainName).join(', ')}
+                      >
+                        +{hiddenCount}
+                      </span>
+                    )}
+                  </div>
+                  <div role="cell" className="text-right text-gray-500 dark:text-gray-400">
+                    {summary.activeCount} / {summary.memberships.length}
+                  </div>
+                  {stake ? (
+                    <div role="cell" className="text-right text-gray-900 dark:text-white">
+                      {formatScaled(stake.value, stake.scale, { compact: true })}
+                    </div>
+                  ) : (
+                    <div
+                      role="cell"
+                      className="text-right text-gray-500 dark:text-gray-400"
+                      title="Adds up different tokens, switch to AVAX or USD to compare"
+                    >
+                      {compactNumber.format(summary.totalStake)}*
+                    </div>
+                  )}
+                  <div role="cell" className="text-right text-gray-500 dark:text-gray-400">
+                    {summary.averageUptime !== null ? `${summary.averageUptime.toFixed(2)}%` : 'N/A'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  ExternalLink,
+  Search,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Chain } from '../types';
+import { useTheme } from '../hooks/useTheme';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { sortByStake } from '../lib/stakeStats';
+import { formatStake } from '../lib/displayUnit';
+import { getStakeDecimals, getStakeShare, sumStake } from '../lib/stake';
+import {
+  applyValidatorTableFilters,
+  DEFAULT_VALIDATOR_TABLE_FILTERS,
+  hasActiveValidatorTableFilters,
+  toValidatorExportRows,
+  ValidatorColumn,
+  ValidatorStatusFilter,
+  ValidatorTableFilters,
+} from '../lib/validatorTable';
+import { exportRows } from '../lib/chartExport';
+import { cn } from '../lib/utils';
+import { getValidatorColor } from './StakeDistributionChart';
+
+const PAGE_SIZE = 25;
+
+const UPTIME_THRESHOLDS = [99, 95, 90, 80];
+
+const STATUS_OPTIONS: { value: ValidatorStatusFilter; label: string }[] = [
+  { value: 'all', label: 'Any status' },
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+];
+
+const COLUMNS: { label: string; sort?: ValidatorColumn }[] = [
+  { label: 'Status', sort: 'status' },
+  { label: 'Node ID' },
+  { label: 'Stake', sort: 'stake' },
+  { label: 'Share', sort: 'share' },
+  { label: 'Uptime', sort: 'uptime' },
+];
+
+const selectClassName = 'py-2 pl-3 pr-8 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-dark-800 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+const buttonClassName = 'inline-flex items-center gap-1.5 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700 disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface ValidatorTableProps {
+  chain: Chain;
+  highlightedValidator?: string | null; // Brought into view whenever it changes
+}
+
+export function ValidatorTable({ chain, highlightedValidator = null }: ValidatorTableProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { tokenScale } = useDisplayUnit();
+  const scale = tokenScale(chain.networkToken?.symbol);
+  const decimals = getStakeDecimals(chain);
+  const [filters, setFilters] = useState<ValidatorTableFilters>(DEFAULT_VALIDATOR_TABLE_FILTERS);
+  const [page, setPage] = useState(0);
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  const pendingHighlight = useRef<string | null>(null);
+
+  const totalStake = useMemo(() => sumStake(chain.validators), [chain]);
+
+  // Swatches use the validator's position in stake order, matching the stake chart
+  const rankByAddress = useMemo(
+    () => new Map(sortByStake(chain.validators).map((validator, index) => [validator.address, index])),
+    [chain]
+  );
+
+  const filtered = useMemo(() => applyValidatorTableFilters(chain.validators, filters), [chain, filters]);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const rows = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateFilters = (update: Partial<ValidatorTableFilters>) => {
+    setFilters(prev => ({ ...prev, ...update }));
+    setPage(0);
+  };
+
+  // Jump to the page holding a validator picked in the chart, dropping filters that hide it
+  useEffect(() => {
+    pendingHighlight.current = highlightedValidator;
+  }, [highlightedValidator]);
+
+  useEffect(() => {
+    const address = pendingHighlight.current;
+    if (!address) return;
+
+    const index = filtered.findIndex(validator => validator.address === address);
+    if (index === -1 && hasActiveValidatorTableFilters(filters)) {
+      setFilters(prev => ({ ...DEFAULT_VALIDATOR_TABLE_FILTERS, sort: prev.sort, direction: prev.direction }));
+      return;
+    }
+
+    pendingHighlight.current = null;
+    if (index !== -1) {
+      setPage(Math.floor(index / PAGE_SIZE));
+      setScrollTarget(address);
+    }
+  }, [highlightedValidator, filtered, filters]);
+
+  // Scroll once the row is on screen
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(`validator-${scrollTarget}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTarget(null);
+  }, [scrollTarget, currentPage]);
+
+  const handleSort = (column: ValidatorColumn) => {
+    if (column === filters.sort) {
+      updateFilters({ direction: filters.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateFilters({ sort: column, direction: 'desc' });
+    }
+  };
+
+  const exportName = `${chain.chainName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-validators`;
+
+  const handleExport = (type: 'csv' | 'json') => {
+    exportRows(toValidatorExportRows(filtered, totalStake, decimals), `${exportName}.${type}`, type);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Validators</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search by node ID..."
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md leading-5 bg-white dark:bg-dark-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <select
+            aria-label="Filter by status"
+            value={filters.status}
+            onChange={(e) => updateFilters({ status: e.target.value as ValidatorStatusFilter })}
+            className={selectClassName}
+          >
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Filter by uptime"
+            value={filters.uptimeBelow ?? ''}
+            onChange={(e) => updateFilters({ uptimeBelow: e.target.value ? Number(e.target.value) : null })}
+            className={selectClassName}
+          >
+            <option value="">Any uptime</option>
+            {UPTIME_THRESHOLDS.map(threshold => (
+              <option key={threshold} value={threshold}>Uptime below {threshold}%</option>
+            ))}
+          </select>
+          <button onClick={() => handleExport('csv')} disabled={!filtered.length} className={buttonClassName}>
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={() => handleExport('json')} disabled={!filtered.length} className={buttonClassName}>
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-3 text-sm text-gray-500 dark:text-gray-400">
+        <span>
+          {filtered.length
+            ? `Showing ${currentPage * PAGE_SIZE + 1}–${currentPage * PAGE_SIZE + rows.length} of ${filtered.length}`
+            : 'No validators shown'}
+          {filtered.length !== chain.validators.length && ` (${chain.validators.length} total)`}
+        </span>
+        {hasActiveValidatorTableFilters(filters) && (
+          <button
+            onClick={() => updateFilters({
+              search: DEFAULT_VALIDATOR_TABLE_FILTERS.search,
+              status: DEFAULT_VALIDATOR_TABLE_FILTERS.status,
+              uptimeBelow: DEFAULT_VALIDATOR_TABLE_FILTERS.uptimeBelow,
+            })}
+            className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <X className="w-3 h-3" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              {COLUMNS.map(column => {
+                const isSorted = column.sort === filters.sort;
+                const SortIcon = filters.direction === 'asc' ? ArrowUp : ArrowDown;
+
+                return (
+                  <th
+                    key={column.label}
+                    aria-sort={isSorted ? (filters.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                    className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                  >
+                    {column.sort ? (
+                      <button
+                        onClick={() => handleSort(column.sort!)}
+                        className={cn(
+                          'inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 dark:hover:text-white',
+                          isSorted && 'text-gray-900 dark:text-white'
+                        )}
+                      >
+                        {column.label}
+                        {isSorted && <SortIcon className="w-3 h-3" />}
+                      </button>
+                    ) : (
+                      column.label
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-dark-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((validator, index) => {
+              const percentage = (getStakeShare(validator.stake, totalStake) * 100).toFixed(2);
+              const rank = rankByAddress.get(validator.address) ?? 0;
+              const isHighlighted = validator.address === highlightedValidator;
+
+              return (
+                <tr
+                  key={validator.address}
+                  id={`validator-${validator.address}`}
+                  className={isHighlighted
+                    ? 'bg-blue-50 dark:bg-blue-900/30 ring-2 ring-inset ring-blue-500'
+                    : index % 2 === 0 ? 'bg-white dark:bg-dark-800' : 'bg-gray-50 dark:bg-dark-800/50'}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {validator.active ? (
+                      <div className="flex items-center">
+                        <CheckCircle className="w-4 h-4 text-green-500 dark:text-green-400 mr-2" />
+                        <span className="text-green-800 dark:text-green-300 text-sm">Active</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center">
+                        <XCircle className="w-4 h-4 text-red-500 dark:text-red-400 mr-2" />
+                        <span className="text-red-800 dark:text-red-300 text-sm">Inactive</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        title={`#${rank + 1} by stake`}
+                        style={{
+                          backgroundColor: getValidatorColor(rank, isDark, 0.8),
+                          border: `2px solid ${getValidatorColor(rank, isDark)}`
+                        }}
+                      />
+                      <Link
+                        to={`/chain/${chain.chainId}/validator/${encodeURIComponent(validator.address)}`}
+                        className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
+                      >
+                        {validator.address}
+                      </Link>
+                      {validator.explorerUrl && (
+                        <a
+                          href={validator.explorerUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title="View on explorer"
+                          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        >
+                          <ExternalLink className="w-3.5 h-3.5" />
+                        </a>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {formatStake(validator.stake, scale, {}, decimals)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {percentage}%
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {validator.uptime ? `${validator.uptime.toFixed(2)}%` : 'N/A'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {filtered.length === 0 && (
+        <p className="text-center text-gray-500 dark:text-gray-400 mt-4">
+          No validators match the current filters
+        </p>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-4 text-sm text-gray-500 dark:text-gray-400">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className={buttonClassName}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className={buttonClassName}
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import { Download, Star, Upload } from 'lucide-react';
+import { Chain } from '../types';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { parseWatchlist, serializeWatchlist } from '../lib/watchlist';
+import { downloadFile } from '../lib/download';
+import { ChainCard, ChainCardSelection } from './ChainCard';
+
+const EXPORT_FILE_NAME = 'l1beat-watchlist.json';
+
+const buttonClassName = 'inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md text-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-900 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface WatchlistSectionProps {
+  selectionFor?: (chain: Chain) => ChainCardSelection;
+}
+
+// Starred chains pinned above everything else on the dashboard
+export function WatchlistSection({ selectionFor }: WatchlistSectionProps) {
+  const { registry } = useChainRegistry();
+  const { chainIds, replace } = useWatchlist();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const watchedChains = useMemo(
+    () => chainIds.flatMap(chainId => registry.byChainId(chainId) ?? []),
+    [chainIds, registry]
+  );
+
+  // IDs from an imported file, or chains the API stopped reporting
+  const missingCount = registry.chains.length ? chainIds.length - watchedChains.length : 0;
+
+  const handleExport = () => {
+    downloadFile(EXPORT_FILE_NAME, serializeWatchlist(chainIds), 'application/json');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    const imported = parseWatchlist(await file.text());
+    if (!imported) {
+      setImportMessage(`${file.name} is not a watchlist file`);
+      return;
+    }
+
+    // Merge so importing a colleague's list keeps your own stars
+    const added = imported.filter(chainId => !chainIds.includes(chainId));
+    replace([...chainIds, ...added]);
+    setImportMessage(`Imported ${added.length} new chain${added.length === 1 ? '' : 's'}`);
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Star className="w-5 h-5 text-amber-400" />
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Watchlist
+        </h2>
+        <div className="flex gap-2 ml-auto">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button onClick={handleExport} disabled={!chainIds.length} className={buttonClassName}>
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {(importMessage || missingCount > 0) && (
+        <div className="flex flex-wrap gap-3 mb-4 text-sm text-gray-500 dark:text-gray-400">
+          {importMessage && <span>{importMessage}</span>}
+          {missingCount > 0 && (
+            <span className="text-amber-600 dark:text-amber-400">
+              {missingCount} watched chain{missingCount === 1 ? ' is' : 's are'} not reported by the API
+            </span>
+          )}
+        </div>
+      )}
+
+      {watchedChains.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {watchedChains.map(chain => (
+            <ChainCard key={chain.chainId} chain={chain} selection={selectionFor?.(chain)} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Star a chain to pin it here.
+        </p>
+      )}
+    </div>
+  );
+}
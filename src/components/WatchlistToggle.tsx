@@ -0,0 +1,36 @@
+import { Star } from 'lucide-react';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { cn } from '../lib/utils';
+
+interface WatchlistToggleProps {
+  chainId: string;
+  chainName: string;
+  className?: string;
+}
+
+export function WatchlistToggle({ chainId, chainName, className }: WatchlistToggleProps) {
+  const { isWatched, toggle } = useWatchlist();
+  const watched = isWatched(chainId);
+  const label = watched ? `Remove ${chainName} from watchlist` : `Add ${chainName} to watchlist`;
+
+  return (
+    <button
+      onClick={(e) => {
+        // Cards and table rows navigate on click
+        e.stopPropagation();
+        toggle(chainId);
+      }}
+      title={label}
+      aria-label={label}
+      aria-pressed={watched}
+      className={cn('p-1 rounded-md transition-colors', className)}
+    >
+      <Star
+        className={cn(
+          'w-4 h-4',
+          watched ? 'fill-amber-400 text-amber-400' : 'text-gray-400 hover:text-amber-400'
+        )}
+      />
+    </button>
+  );
+}
@@ -1,8 +1,30 @@
 import { z } from 'zod';
 
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
 // Define a schema for environment variables
 const envSchema = z.object({
   VITE_API_BASE_URL: z.string().url(),
+  // Replaces live Teleporter data with generated sample flows, for local demos only
+  VITE_DEMO_MODE: z.enum(['true', 'false']).optional(),
+  // JSON object of extra chain aliases, e.g. {"C-Chain":"Avalanche (C-Chain)"}
+  VITE_CHAIN_ALIASES: z.string().optional().transform((value, ctx) => {
+    if (!value) return {};
+    const aliases = z.record(z.string(), z.string()).safeParse(safeJsonParse(value));
+    if (!aliases.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a JSON object mapping aliases to chain names or IDs' });
+      return z.NEVER;
+    }
+    return aliases.data;
+  }),
+  // Endpoint for USD token prices, defaults to /api/prices on the API server
+  VITE_PRICE_API_URL: z.union([z.string().url(), z.literal('')]).optional(),
 });
 
 // Parse environment variables
@@ -11,4 +33,7 @@ const env = envSchema.parse(import.meta.env);
 // Configuration object
 export const config = {
   apiBaseUrl: env.VITE_API_BASE_URL,
-} as const;
\ No newline at end of file
+  demoMode: env.VITE_DEMO_MODE === 'true',
+  chainAliases: env.VITE_CHAIN_ALIASES,
+  priceApiUrl: env.VITE_PRICE_API_URL || `${env.VITE_API_BASE_URL}/api/prices`,
+} as const;
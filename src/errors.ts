@@ -0,0 +1,166 @@
+import type { ZodIssue } from 'zod';
+
+// A single field that failed validation, with a readable path into the payload
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// Everything that can go wrong talking to the backend, discriminated by `kind`
+export type ApiErrorDetails =
+  | { kind: 'timeout'; timeoutMs: number }
+  | { kind: 'rate-limited'; retryAfterMs: number | null }
+  | { kind: 'http'; status: number }
+  | { kind: 'offline' }
+  | { kind: 'network' }
+  | { kind: 'cors' }
+  | { kind: 'schema'; issues: SchemaIssue[] }
+  | { kind: 'aborted' };
+
+export type ApiErrorKind = ApiErrorDetails['kind'];
+
+// Format a zod issue path as `validators[3].amountStaked`
+function formatIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) return '(root)';
+
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+}
+
+export function toSchemaIssues(issues: ZodIssue[]): SchemaIssue[] {
+  return issues.map(issue => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }));
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  return `${seconds}s`;
+}
+
+function buildMessage(endpoint: string, details: ApiErrorDetails): string {
+  switch (details.kind) {
+    case 'timeout':
+      return `${endpoint} timed out after ${formatSeconds(details.timeoutMs)}`;
+    case 'rate-limited':
+      return details.retryAfterMs !== null
+        ? `${endpoint} is rate limited, retry after ${formatSeconds(details.retryAfterMs)}`
+        : `${endpoint} is rate limited`;
+    case 'http':
+      return `${endpoint} failed with HTTP ${details.status}`;
+    case 'offline':
+      return `${endpoint} failed because the browser is offline`;
+    case 'network':
+      return `${endpoint} could not be reached`;
+    case 'cors':
+      return `${endpoint} was blocked by the browser (CORS)`;
+    case 'aborted':
+      return `${endpoint} was cancelled`;
+    case 'schema': {
+      const [first] = details.issues;
+      const summary = first ? `${first.path}: ${first.message}` : 'unknown field';
+      const more = details.issues.length > 1 ? ` (+${details.issues.length - 1} more)` : '';
+      return `Unexpected response from ${endpoint} - ${summary}${more}`;
+    }
+  }
+}
+
+// The only error type thrown by the get* functions in api.ts
+export class ApiError extends Error {
+  readonly endpoint: string;
+  readonly details: ApiErrorDetails;
+
+  constructor(endpoint: string, details: ApiErrorDetails) {
+    super(buildMessage(endpoint, details));
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+    this.details = details;
+  }
+
+  get kind(): ApiErrorKind {
+    return this.details.kind;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+// Cancelled requests (e.g. a component unmounted) are not failures and should not be rendered
+export function isAbortError(error: unknown): boolean {
+  return isApiError(error) && error.kind === 'aborted';
+}
+
+// User-facing copy for an error state
+export interface ErrorDescription {
+  kind: ApiErrorKind | 'unknown';
+  title: string;
+  message: string;
+}
+
+export function describeApiError(error: unknown, fallback: string): ErrorDescription {
+  if (!isApiError(error)) {
+    return { kind: 'unknown', title: 'Something went wrong', message: fallback };
+  }
+
+  const { details } = error;
+
+  switch (details.kind) {
+    case 'timeout':
+      return {
+        kind: details.kind,
+        title: 'Request timed out',
+        message: 'The server took too long to respond. Please try again.',
+      };
+    case 'rate-limited':
+      return {
+        kind: details.kind,
+        title: 'Too many requests',
+        message: details.retryAfterMs !== null
+          ? `The API is rate limiting requests. Try again in ${formatSeconds(details.retryAfterMs)}.`
+          : 'The API is rate limiting requests. Please try again shortly.',
+      };
+    case 'http':
+      if (details.status === 404) {
+        return { kind: details.kind, title: 'Not found', message: `${error.endpoint} returned 404.` };
+      }
+      return {
+        kind: details.kind,
+        title: details.status >= 500 ? 'Server error' : 'Request failed',
+        message: `${error.endpoint} returned HTTP ${details.status}. ${fallback}`,
+      };
+    case 'offline':
+      return {
+        kind: details.kind,
+        title: 'You are offline',
+        message: 'Check your internet connection and try again.',
+      };
+    case 'network':
+      return {
+        kind: details.kind,
+        title: 'Server unreachable',
+        message: 'Unable to connect to the server. Please try again later.',
+      };
+    case 'cors':
+      return {
+        kind: details.kind,
+        title: 'Request blocked',
+        message: 'The browser blocked the request to the API (CORS).',
+      };
+    case 'schema':
+      return {
+        kind: details.kind,
+        title: 'Unexpected data format',
+        message: error.message,
+      };
+    case 'aborted':
+      return {
+        kind: details.kind,
+        title: 'Request cancelled',
+        message: fallback,
+      };
+  }
+}
@@ -0,0 +1,314 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  cacheKeys,
+  peekCache,
+  isCacheEntryStale,
+  subscribeToCache,
+  getChains,
+  getHealth,
+  getNetworkTPS,
+  getTPSHistory,
+  getChainTVLHistory,
+  getTVLBreakdown,
+  getTVLHealth,
+  getTVLHistory,
+  getTeleporterDailyHistory,
+  getTeleporterMessages,
+  getTokenPrices,
+  CacheEntry,
+  RequestOptions,
+} from '../api';
+import { TPSHistory } from '../types';
+import { isAbortError } from '../errors';
+
+export interface ApiQueryOptions {
+  refreshInterval?: number; // Poll every N ms while the tab is visible
+  enabled?: boolean;
+}
+
+export interface ApiQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean; // Nothing to show yet
+  isRefreshing: boolean; // Revalidating while showing cached data
+  isStale: boolean; // Cached data is past its cache duration
+  lastUpdated: number | null;
+  refetch: () => void;
+}
+
+interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  lastUpdated: number | null;
+}
+
+// The api.ts cache entries a query's data is built from
+interface CacheSource<T> {
+  keys: string[];
+  combine: (data: unknown[]) => T; // One value per key, in the same order
+}
+
+// Every entry of the source, or undefined until all of them are cached
+function peekEntries(keys: string[]): CacheEntry[] | undefined {
+  const entries = keys.map(key => peekCache(key));
+  return entries.length && entries.every((entry): entry is CacheEntry => entry !== undefined) ? entries : undefined;
+}
+
+// A combined value is only as recent as its oldest part
+function oldestTimestamp(entries: CacheEntry[]): number {
+  return Math.min(...entries.map(entry => entry.timestamp));
+}
+
+function getCachedState<T>(source: CacheSource<T>): QueryState<T> {
+  const entries = peekEntries(source.keys);
+  return {
+    data: entries && source.combine(entries.map(entry => entry.data)),
+    error: null,
+    isFetching: false,
+    lastUpdated: entries ? oldestTimestamp(entries) : null,
+  };
+}
+
+/**
+ * Stale-while-revalidate wrapper around the api.ts fetchers
+ * @param key Cache key from `cacheKeys`, or null to skip fetching
+ * @param fetcher Calls the api.ts function for this key with the given request options
+ * @returns Cached data immediately, refreshed in the background on mount, focus, reconnect and polling
+ */
+export function useApiQuery<T>(
+  key: string | null,
+  fetcher: (options: RequestOptions) => Promise<T>,
+  options?: ApiQueryOptions
+): ApiQueryResult<T> {
+  return useCachedQuery(
+    key,
+    { keys: key ? [key] : [], combine: data => data[0] as T },
+    fetcher,
+    options
+  );
+}
+
+/**
+ * useApiQuery for data built from one or more cache entries
+ * @param key Identifies the query, or null to skip fetching. The source's keys may only change along with it.
+ * @param source Entries to paint from and subscribe to, usually the ones the fetcher writes
+ */
+function useCachedQuery<T>(
+  key: string | null,
+  source: CacheSource<T>,
+  fetcher: (options: RequestOptions) => Promise<T>,
+  { refreshInterval, enabled = true }: ApiQueryOptions = {}
+): ApiQueryResult<T> {
+  const [state, setState] = useState<QueryState<T>>(() => getCachedState(source));
+  const fetcherRef = useRef(fetcher);
+  const sourceRef = useRef(source);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Always call the latest fetcher and source without restarting the effects below
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+    sourceRef.current = source;
+  });
+
+  const revalidate = useCallback(async (maxAge?: number) => {
+    if (!key || !enabled) return;
+
+    // Only the newest revalidation may update state
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setState(prev => ({ ...prev, isFetching: true }));
+
+    try {
+      const data = await fetcherRef.current({ signal: controller.signal, maxAge });
+      const entries = peekEntries(sourceRef.current.keys);
+      setState({
+        data,
+        error: null,
+        isFetching: false,
+        lastUpdated: entries ? oldestTimestamp(entries) : Date.now(),
+      });
+    } catch (error) {
+      // A newer revalidation (or unmounting) cancelled this one, the newer one owns the state.
+      // An abort from anywhere else must still clear isFetching.
+      if (isAbortError(error) && (controller.signal.aborted || controller !== controllerRef.current)) return;
+      // Keep showing the previous data alongside the error
+      setState(prev => ({ ...prev, error, isFetching: false }));
+    }
+  }, [key, enabled]);
+
+  // Show whatever is cached for the key, then revalidate
+  useEffect(() => {
+    setState(getCachedState(sourceRef.current));
+    revalidate();
+
+    return () => controllerRef.current?.abort();
+  }, [key, revalidate]);
+
+  // Pick up data fetched by other components using the same key
+  useEffect(() => {
+    if (!key) return;
+
+    const { keys, combine } = sourceRef.current;
+    const handleUpdate = () => {
+      const entries = peekEntries(keys);
+      if (!entries) return;
+      setState(prev => ({
+        ...prev,
+        data: combine(entries.map(entry => entry.data)),
+        error: null,
+        lastUpdated: oldestTimestamp(entries),
+      }));
+    };
+
+    const unsubscribers = keys.map(cacheKey => subscribeToCache(cacheKey, handleUpdate));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [key]);
+
+  // Poll while visible, refetch on focus and when the connection comes back
+  useEffect(() => {
+    if (!key || !enabled) return;
+
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+
+    const startPolling = () => {
+      if (!refreshInterval || intervalId !== null) return;
+      intervalId = setInterval(() => revalidate(refreshInterval), refreshInterval);
+    };
+
+    const stopPolling = () => {
+      if (intervalId === null) return;
+      clearInterval(intervalId);
+      intervalId = null;
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        revalidate(refreshInterval);
+        startPolling();
+      } else {
+        stopPolling();
+      }
+    };
+
+    const handleFocusOrOnline = () => revalidate(refreshInterval);
+
+    if (document.visibilityState === 'visible') {
+      startPolling();
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('focus', handleFocusOrOnline);
+    window.addEventListener('online', handleFocusOrOnline);
+
+    return () => {
+      stopPolling();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('focus', handleFocusOrOnline);
+      window.removeEventListener('online', handleFocusOrOnline);
+    };
+  }, [key, enabled, refreshInterval, revalidate]);
+
+  const refetch = useCallback(() => {
+    revalidate(0);
+  }, [revalidate]);
+
+  const entries = key ? peekEntries(source.keys) : undefined;
+  const hasData = state.data !== undefined;
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: !hasData && (state.isFetching || (enabled && key !== null && state.error === null)),
+    isRefreshing: hasData && state.isFetching,
+    isStale: entries ? entries.some(isCacheEntryStale) : false,
+    lastUpdated: state.lastUpdated,
+    refetch,
+  };
+}
+
+export function useChains(options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.chains(), getChains, options);
+}
+
+export function useHealth(options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.health(), getHealth, options);
+}
+
+export function useTVLHistory(days: number = 30, options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.tvlHistory(days), requestOptions => getTVLHistory(days, requestOptions), options);
+}
+
+export function useTVLBreakdown(days: number = 30, options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.tvlBreakdown(days), requestOptions => getTVLBreakdown(days, requestOptions), options);
+}
+
+export function useChainTVLHistory(chainId: string, days: number = 30, options?: ApiQueryOptions) {
+  return useApiQuery(
+    cacheKeys.chainTvlHistory(chainId, days),
+    requestOptions => getChainTVLHistory(chainId, days, requestOptions),
+    options
+  );
+}
+
+export function useTVLHealth(options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.tvlHealth(), getTVLHealth, options);
+}
+
+export function useTPSHistory(days: number = 7, chainId?: string, options?: ApiQueryOptions) {
+  return useApiQuery(
+    cacheKeys.tpsHistory(days, chainId),
+    requestOptions => getTPSHistory(days, chainId, requestOptions),
+    options
+  );
+}
+
+/**
+ * TPS history for several chains in one query, so they can share a chart
+ * @returns One history per chain ID in the same order, null for a chain whose request failed.
+ * Only errors when every chain fails.
+ */
+export function useTPSHistories(days: number, chainIds: string[], options?: ApiQueryOptions) {
+  // getTPSHistory caches each chain under its own key, so paint from and subscribe to those
+  const keys = chainIds.map(chainId => cacheKeys.tpsHistory(days, chainId));
+
+  return useCachedQuery<(TPSHistory[] | null)[]>(
+    keys.length ? keys.join('|') : null,
+    { keys, combine: data => data as TPSHistory[][] },
+    async requestOptions => {
+      const results = await Promise.allSettled(chainIds.map(chainId => getTPSHistory(days, chainId, requestOptions)));
+      const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (rejected && results.every(result => result.status === 'rejected')) {
+        throw rejected.reason;
+      }
+      return results.map(result => (result.status === 'fulfilled' ? result.value : null));
+    },
+    options
+  );
+}
+
+export function useNetworkTPS(options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.networkTPS(), getNetworkTPS, options);
+}
+
+export function useTeleporterMessages(options?: ApiQueryOptions) {
+  return useApiQuery(cacheKeys.teleporterMessages(), getTeleporterMessages, options);
+}
+
+export function useTeleporterDailyHistory(days: number = 30, options?: ApiQueryOptions) {
+  return useApiQuery(
+    cacheKeys.teleporterDailyHistory(days),
+    requestOptions => getTeleporterDailyHistory(days, requestOptions),
+    options
+  );
+}
+
+export function useTokenPrices(symbols: string[], options?: ApiQueryOptions) {
+  return useApiQuery(
+    cacheKeys.tokenPrices(symbols),
+    requestOptions => getTokenPrices(symbols, requestOptions),
+    options
+  );
+}
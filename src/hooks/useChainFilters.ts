@@ -0,0 +1,19 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ChainFilters, parseChainFilters, writeChainFilters } from '../lib/chainFilters';
+
+/**
+ * Chain grid filters stored in the URL query string so a filtered view can be shared
+ * @returns The current filters and a setter that merges a partial update
+ */
+export function useChainFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseChainFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback((update: Partial<ChainFilters>) => {
+    // Replace rather than push, so typing in the search box doesn't flood the history
+    setSearchParams(params => writeChainFilters(params, { ...parseChainFilters(params), ...update }), { replace: true });
+  }, [setSearchParams]);
+
+  return { filters, setFilters };
+}
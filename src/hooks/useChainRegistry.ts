@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+import { ChainRegistryContext, ChainRegistryContextValue } from '../lib/chainRegistry';
+
+/**
+ * Shared chain lookups from the nearest ChainRegistryProvider
+ * @returns The registry plus the loading and error state of the underlying /api/chains query
+ */
+export function useChainRegistry(): ChainRegistryContextValue {
+  const context = useContext(ChainRegistryContext);
+  if (!context) {
+    throw new Error('useChainRegistry must be used within a ChainRegistryProvider');
+  }
+  return context;
+}
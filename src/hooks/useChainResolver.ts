@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { config } from '../config';
+import { createChainResolver, ChainResolver, DEFAULT_CHAIN_ALIASES } from '../lib/chainResolver';
+import { useChainRegistry } from './useChainRegistry';
+
+// Aliases from VITE_CHAIN_ALIASES override the built-in ones
+const CHAIN_ALIASES = { ...DEFAULT_CHAIN_ALIASES, ...config.chainAliases };
+
+/**
+ * Maps chain names used by the Teleporter endpoints to chains from the registry
+ * @returns A resolver rebuilt whenever the registry refreshes
+ */
+export function useChainResolver(): ChainResolver {
+  const { registry } = useChainRegistry();
+  return useMemo(() => createChainResolver(registry, CHAIN_ALIASES), [registry]);
+}
@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+import { DisplayUnitContext, DisplayUnitContextValue } from '../lib/displayUnit';
+
+/**
+ * Selected display unit from the nearest DisplayUnitProvider
+ * @returns The unit, its setter, the loaded prices and scales that fall back when a price is missing
+ */
+export function useDisplayUnit(): DisplayUnitContextValue {
+  const context = useContext(DisplayUnitContext);
+  if (!context) {
+    throw new Error('useDisplayUnit must be used within a DisplayUnitProvider');
+  }
+  return context;
+}
@@ -0,0 +1,18 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseTpsRange, TpsRange, writeTpsRange } from '../lib/tpsRange';
+
+/**
+ * TPS chart time range stored in the URL query string, so a zoomed-out chain view can be shared
+ * @returns The current range and a setter that replaces it
+ */
+export function useTpsRange() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const range = useMemo(() => parseTpsRange(searchParams), [searchParams]);
+
+  const setRange = useCallback((next: TpsRange) => {
+    setSearchParams(params => writeTpsRange(params, next), { replace: true });
+  }, [setSearchParams]);
+
+  return { range, setRange };
+}
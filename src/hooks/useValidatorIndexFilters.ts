@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  parseValidatorIndexFilters,
+  ValidatorIndexFilters,
+  writeValidatorIndexFilters,
+} from '../lib/validatorIndex';
+
+/**
+ * Search and sort for the /validators page, stored in the URL like the dashboard filters
+ * @returns The current filters and a setter that merges a partial update
+ */
+export function useValidatorIndexFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseValidatorIndexFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback((update: Partial<ValidatorIndexFilters>) => {
+    setSearchParams(
+      params => writeValidatorIndexFilters(params, { ...parseValidatorIndexFilters(params), ...update }),
+      { replace: true }
+    );
+  }, [setSearchParams]);
+
+  return { filters, setFilters };
+}
@@ -0,0 +1,14 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getWatchlist, setWatchlist, subscribeToWatchlist, toggleWatchlist } from '../lib/watchlist';
+
+/**
+ * Starred chains shared by every component on the page and persisted in localStorage
+ * @returns The watched chain IDs in the order they were added, plus helpers to change them
+ */
+export function useWatchlist() {
+  const chainIds = useSyncExternalStore(subscribeToWatchlist, getWatchlist);
+
+  const isWatched = useCallback((chainId: string) => chainIds.includes(chainId), [chainIds]);
+
+  return { chainIds, isWatched, toggle: toggleWatchlist, replace: setWatchlist };
+}
@@ -0,0 +1,171 @@
+import { Chain } from '../types';
+import { isActiveChain } from './chainRegistry';
+import { getWeightedUptime } from './uptime';
+import { compareStake, sumStake } from './stake';
+
+// Same thresholds as the TPS colours on ChainCard
+export type TpsBand = 'all' | 'high' | 'medium' | 'low' | 'none';
+// 'active' keeps the dashboard's default rule, a number is a minimum validator count
+export type ValidatorFilter = 'active' | 'all' | number;
+export type TokenFilter = 'all' | 'with' | 'without';
+export type ChainSortKey = 'default' | 'name' | 'tps' | 'validators' | 'stake' | 'uptime' | 'updated';
+export type SortDirection = 'asc' | 'desc';
+export type ChainView = 'grid' | 'table';
+
+export interface ChainFilters {
+  search: string;
+  tps: TpsBand;
+  validators: ValidatorFilter;
+  token: TokenFilter;
+  sort: ChainSortKey;
+  direction: SortDirection;
+  view: ChainView; // Not a filter, but shared through the URL the same way
+}
+
+export const DEFAULT_CHAIN_FILTERS: ChainFilters = {
+  search: '',
+  tps: 'all',
+  validators: 'active',
+  token: 'all',
+  sort: 'default',
+  direction: 'asc',
+  view: 'grid',
+};
+
+const TPS_BANDS: TpsBand[] = ['all', 'high', 'medium', 'low', 'none'];
+const TOKEN_FILTERS: TokenFilter[] = ['all', 'with', 'without'];
+const SORT_KEYS: ChainSortKey[] = ['default', 'name', 'tps', 'validators', 'stake', 'uptime', 'updated'];
+const VIEWS: ChainView[] = ['grid', 'table'];
+
+// Query string parameter for each filter
+const PARAMS = {
+  search: 'q',
+  tps: 'tps',
+  validators: 'validators',
+  token: 'token',
+  sort: 'sort',
+  direction: 'dir',
+  view: 'view',
+} as const;
+
+function oneOf<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? value as T : fallback;
+}
+
+function parseValidatorFilter(value: string | null): ValidatorFilter {
+  if (value === 'active' || value === 'all') return value;
+  const min = Number(value);
+  return value && Number.isInteger(min) && min > 0 ? min : DEFAULT_CHAIN_FILTERS.validators;
+}
+
+// Unknown or malformed parameters fall back to the defaults
+export function parseChainFilters(params: URLSearchParams): ChainFilters {
+  const sort = oneOf(params.get(PARAMS.sort), SORT_KEYS, DEFAULT_CHAIN_FILTERS.sort);
+
+  return {
+    search: params.get(PARAMS.search) ?? DEFAULT_CHAIN_FILTERS.search,
+    tps: oneOf(params.get(PARAMS.tps), TPS_BANDS, DEFAULT_CHAIN_FILTERS.tps),
+    validators: parseValidatorFilter(params.get(PARAMS.validators)),
+    token: oneOf(params.get(PARAMS.token), TOKEN_FILTERS, DEFAULT_CHAIN_FILTERS.token),
+    sort,
+    direction: oneOf(params.get(PARAMS.direction), ['asc', 'desc'], defaultDirection(sort)),
+    view: oneOf(params.get(PARAMS.view), VIEWS, DEFAULT_CHAIN_FILTERS.view),
+  };
+}
+
+// Write the filters into a copy of `params`, leaving defaults out so shared URLs stay short
+export function writeChainFilters(params: URLSearchParams, filters: ChainFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+
+  (Object.keys(PARAMS) as (keyof ChainFilters)[]).forEach(key => {
+    const value = filters[key];
+    const isDefault = key === 'direction'
+      ? value === defaultDirection(filters.sort)
+      : value === DEFAULT_CHAIN_FILTERS[key];
+
+    if (isDefault || value === '') {
+      next.delete(PARAMS[key]);
+    } else {
+      next.set(PARAMS[key], String(value));
+    }
+  });
+
+  return next;
+}
+
+// Names read A-Z, metrics read highest first
+export function defaultDirection(sort: ChainSortKey): SortDirection {
+  return sort === 'default' || sort === 'name' ? 'asc' : 'desc';
+}
+
+export function getTpsBand(chain: Chain): Exclude<TpsBand, 'all'> {
+  const tps = chain.tps?.value;
+  if (typeof tps !== 'number') return 'none';
+  if (tps >= 1) return 'high';
+  if (tps >= 0.1) return 'medium';
+  return 'low';
+}
+
+// Summed exactly in the chain's smallest token unit
+export function getTotalStake(chain: Chain): bigint {
+  return sumStake(chain.validators);
+}
+
+function isCChain(chain: Chain): boolean {
+  return chain.chainName.toLowerCase().includes('c-chain');
+}
+
+function matchesSearch(chain: Chain, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  return [chain.chainName, chain.chainId, chain.networkToken?.symbol, chain.networkToken?.name]
+    .some(value => value?.toLowerCase().includes(term));
+}
+
+function matchesValidators(chain: Chain, filter: ValidatorFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'active') return isActiveChain(chain);
+  return chain.validators.length >= filter;
+}
+
+function compareChains(a: Chain, b: Chain, sort: ChainSortKey): number {
+  switch (sort) {
+    case 'name':
+      return a.chainName.localeCompare(b.chainName);
+    case 'tps':
+      return (a.tps?.value ?? -1) - (b.tps?.value ?? -1);
+    case 'validators':
+      return a.validators.length - b.validators.length;
+    case 'stake':
+      return compareStake(getTotalStake(a), getTotalStake(b));
+    case 'uptime':
+      return (getWeightedUptime(a.validators) ?? -1) - (getWeightedUptime(b.validators) ?? -1);
+    case 'updated':
+      return (a.tps?.timestamp ?? 0) - (b.tps?.timestamp ?? 0);
+    case 'default':
+      // C-Chain first, then alphabetically
+      if (isCChain(a) !== isCChain(b)) return isCChain(a) ? -1 : 1;
+      return a.chainName.localeCompare(b.chainName);
+  }
+}
+
+export function applyChainFilters(chains: Chain[], filters: ChainFilters): Chain[] {
+  const direction = filters.direction === 'asc' ? 1 : -1;
+
+  return chains
+    .filter(chain =>
+      matchesSearch(chain, filters.search) &&
+      (filters.tps === 'all' || getTpsBand(chain) === filters.tps) &&
+      matchesValidators(chain, filters.validators) &&
+      (filters.token === 'all' || (filters.token === 'with') === Boolean(chain.networkToken))
+    )
+    .sort((a, b) => compareChains(a, b, filters.sort) * direction || a.chainName.localeCompare(b.chainName));
+}
+
+export function hasActiveChainFilters(filters: ChainFilters): boolean {
+  return filters.search !== DEFAULT_CHAIN_FILTERS.search ||
+    filters.tps !== DEFAULT_CHAIN_FILTERS.tps ||
+    filters.validators !== DEFAULT_CHAIN_FILTERS.validators ||
+    filters.token !== DEFAULT_CHAIN_FILTERS.token;
+}
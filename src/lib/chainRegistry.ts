@@ -0,0 +1,81 @@
+import { createContext } from 'react';
+import { Chain, Validator } from '../types';
+import type { ApiQueryResult } from '../hooks/useApiQuery';
+
+// A NodeID validating a particular chain
+export interface ValidatorMembership {
+  chain: Chain;
+  validator: Validator;
+}
+
+// Lookups over the chains returned by GET /api/chains, built once per response
+export interface ChainRegistry {
+  chains: Chain[];
+  activeChains: Chain[]; // Chains with validators, plus the Avalanche primary network chains
+  byChainId: (chainId: string) => Chain | undefined;
+  byChainName: (chainName: string) => Chain | undefined;
+  byPlatformChainId: (platformChainId: string) => Chain | undefined;
+  bySubnetId: (subnetId: string) => Chain | undefined;
+  find: (idOrName: string) => Chain | undefined; // Tries every lookup in turn
+  nodeIds: string[]; // Every NodeID validating at least one chain
+  byNodeId: (nodeId: string) => ValidatorMembership[]; // Every chain the NodeID validates, in API order
+}
+
+export function isActiveChain(chain: Chain): boolean {
+  const name = chain.chainName.toLowerCase();
+  return chain.validators.length > 0 || name.includes('avalanche') || name.includes('c-chain');
+}
+
+function indexBy(chains: Chain[], getKey: (chain: Chain) => string | undefined): Map<string, Chain> {
+  const index = new Map<string, Chain>();
+
+  chains.forEach(chain => {
+    const key = getKey(chain);
+    // First chain wins if the API ever returns duplicates
+    if (key && !index.has(key)) {
+      index.set(key, chain);
+    }
+  });
+
+  return index;
+}
+
+export function buildChainRegistry(chains: Chain[]): ChainRegistry {
+  const chainIds = indexBy(chains, chain => chain.chainId);
+  const chainNames = indexBy(chains, chain => chain.chainName);
+  const platformChainIds = indexBy(chains, chain => chain.platformChainId);
+  const subnetIds = indexBy(chains, chain => chain.subnetId);
+
+  const nodeIds = new Map<string, ValidatorMembership[]>();
+  chains.forEach(chain => {
+    chain.validators.forEach(validator => {
+      const memberships = nodeIds.get(validator.address) ?? [];
+      memberships.push({ chain, validator });
+      nodeIds.set(validator.address, memberships);
+    });
+  });
+
+  return {
+    chains,
+    activeChains: chains.filter(isActiveChain),
+    byChainId: chainId => chainIds.get(chainId),
+    byChainName: chainName => chainNames.get(chainName),
+    byPlatformChainId: platformChainId => platformChainIds.get(platformChainId),
+    bySubnetId: subnetId => subnetIds.get(subnetId),
+    find: idOrName =>
+      chainIds.get(idOrName) ??
+      chainNames.get(idOrName) ??
+      platformChainIds.get(idOrName) ??
+      subnetIds.get(idOrName),
+    nodeIds: Array.from(nodeIds.keys()),
+    byNodeId: nodeId => nodeIds.get(nodeId) ?? [],
+  };
+}
+
+export const EMPTY_CHAIN_REGISTRY = buildChainRegistry([]);
+
+export interface ChainRegistryContextValue extends Omit<ApiQueryResult<Chain[]>, 'data'> {
+  registry: ChainRegistry;
+}
+
+export const ChainRegistryContext = createContext<ChainRegistryContextValue | null>(null);
@@ -0,0 +1,87 @@
+import { Chain } from '../types';
+import { ChainRegistry } from './chainRegistry';
+
+// Alias -> chain name or ID. Keys are matched after normalisation, so casing and punctuation don't matter.
+export type ChainAliases = Record<string, string>;
+
+// Names the Teleporter endpoints are known to use that differ from the chain's name in /api/chains
+export const DEFAULT_CHAIN_ALIASES: ChainAliases = {
+  'C-Chain': 'Avalanche (C-Chain)',
+  'Avalanche C-Chain': 'Avalanche (C-Chain)',
+  'Avalanche': 'Avalanche (C-Chain)',
+  'Dexalot': 'Dexalot L1',
+  'ZeroOne': 'zeroone Mainnet L1',
+  'Lamina1': 'Lamina1 L1',
+  'PLYR': 'PLYR PHI L1',
+};
+
+// 'Avalanche (C-Chain)' and 'avalanche c chain' normalise to the same key
+export function normalizeChainName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export interface ChainResolver {
+  resolve: (name: string) => Chain | undefined;
+  findUnresolved: (names: Iterable<string>) => string[]; // Sorted, without duplicates
+  shortName: (name: string) => string; // First alias pointing at the resolved chain, else its registry name
+}
+
+export function createChainResolver(registry: ChainRegistry, aliases: ChainAliases = {}): ChainResolver {
+  const normalizedNames = new Map<string, Chain>();
+  registry.chains.forEach(chain => {
+    const key = normalizeChainName(chain.chainName);
+    if (!normalizedNames.has(key)) {
+      normalizedNames.set(key, chain);
+    }
+  });
+
+  const normalizedAliases = new Map<string, string>();
+  Object.entries(aliases).forEach(([alias, target]) => {
+    normalizedAliases.set(normalizeChainName(alias), target);
+  });
+
+  // Reverse of the alias table, the first alias listed for a chain wins
+  const shortNames = new Map<Chain, string>();
+
+  const lookup = (value: string) =>
+    registry.find(value) ?? normalizedNames.get(normalizeChainName(value));
+
+  const resolved = new Map<string, Chain | undefined>();
+
+  const resolve = (name: string): Chain | undefined => {
+    if (resolved.has(name)) return resolved.get(name);
+
+    // Exact IDs and names first, then the alias table, then a normalised name match
+    const trimmed = name.trim();
+    const alias = normalizedAliases.get(normalizeChainName(trimmed));
+    const chain = registry.find(trimmed) ?? (alias !== undefined ? lookup(alias) : undefined) ?? lookup(trimmed);
+
+    resolved.set(name, chain);
+    return chain;
+  };
+
+  Object.entries(aliases).forEach(([alias, target]) => {
+    const chain = lookup(target);
+    if (chain && !shortNames.has(chain)) {
+      shortNames.set(chain, alias);
+    }
+  });
+
+  return {
+    resolve,
+    shortName: name => {
+      const chain = resolve(name);
+      return chain ? shortNames.get(chain) ?? chain.chainName : name;
+    },
+    findUnresolved: names => {
+      const unresolved = new Set<string>();
+      for (const name of names) {
+        if (!resolve(name)) unresolved.add(name);
+      }
+      return Array.from(unresolved).sort((a, b) => a.localeCompare(b));
+    },
+  };
+}
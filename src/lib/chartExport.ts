@@ -0,0 +1,128 @@
+import { format } from 'date-fns';
+import { downloadFile, toCsv } from './download';
+
+export type ChartExportFormat = 'png' | 'svg' | 'csv' | 'json';
+
+// Card backgrounds behind transparent chart canvases, matching bg-white and dark:bg-dark-800
+export const EXPORT_BACKGROUNDS = {
+  light: '#ffffff',
+  dark: '#1a1a1a',
+};
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Presentation properties copied inline so an SVG styled by CSS classes renders the same outside the page
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+  'visibility',
+];
+
+// Dated file name so repeated exports for weekly reports don't overwrite each other
+export function getExportFileName(name: string, extension: ChartExportFormat): string {
+  const slug = name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `${slug}-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png');
+  });
+}
+
+// Charts draw on a transparent canvas, so paint the card background underneath
+export async function exportCanvasAsPng(source: HTMLCanvasElement, fileName: string, background: string) {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0);
+  downloadFile(fileName, await canvasToBlob(canvas), 'image/png');
+}
+
+/**
+ * Standalone SVG markup for an element on the page
+ * @returns Markup sized to the element as rendered, with a background and inlined styles
+ */
+export function serializeSvg(svg: SVGSVGElement, background: string): string {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  const sourceElements = svg.querySelectorAll('*');
+  clone.querySelectorAll('*').forEach((element, index) => {
+    const computed = getComputedStyle(sourceElements[index]);
+    const style = INLINED_STYLES
+      .map(property => `${property}:${computed.getPropertyValue(property)}`)
+      .join(';');
+    element.setAttribute('style', `${style};${element.getAttribute('style') ?? ''}`);
+    element.removeAttribute('class');
+  });
+
+  clone.removeAttribute('class');
+  clone.setAttribute('xmlns', SVG_NAMESPACE);
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  if (!clone.hasAttribute('viewBox')) {
+    clone.setAttribute('viewBox', `0 0 ${Math.round(width)} ${Math.round(height)}`);
+  }
+
+  const backdrop = document.createElementNS(SVG_NAMESPACE, 'rect');
+  backdrop.setAttribute('width', '100%');
+  backdrop.setAttribute('height', '100%');
+  backdrop.setAttribute('fill', background);
+  clone.insertBefore(backdrop, clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+export function exportSvg(markup: string, fileName: string) {
+  downloadFile(fileName, markup, 'image/svg+xml');
+}
+
+/**
+ * Rasterise SVG markup, at the device pixel ratio so it is as sharp as on screen
+ * @param markup Output of `serializeSvg`, or any SVG with width and height attributes
+ */
+export async function exportSvgAsPng(markup: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render SVG'));
+      image.src = url;
+    });
+
+    const scale = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * scale;
+    canvas.height = image.height * scale;
+    const context = canvas.getContext('2d')!;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    downloadFile(fileName, await canvasToBlob(canvas), 'image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function exportRows(rows: Record<string, unknown>[], fileName: string, type: 'csv' | 'json') {
+  if (type === 'csv') {
+    downloadFile(fileName, toCsv(rows), 'text/csv');
+  } else {
+    downloadFile(fileName, JSON.stringify(rows, null, 2), 'application/json');
+  }
+}
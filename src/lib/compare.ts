@@ -0,0 +1,116 @@
+import { Validator } from '../types';
+import { ChainResolver } from './chainResolver';
+
+export const MAX_COMPARE_CHAINS = 4;
+
+// Query string parameter holding the comma separated chain IDs
+const COMPARE_PARAM = 'chains';
+
+// One colour per slot, used by every chart on the compare page
+export const COMPARE_COLORS = [
+  { light: 'rgb(59, 130, 246)', dark: 'rgb(96, 165, 250)' },
+  { light: 'rgb(16, 185, 129)', dark: 'rgb(52, 211, 153)' },
+  { light: 'rgb(245, 158, 11)', dark: 'rgb(251, 191, 36)' },
+  { light: 'rgb(236, 72, 153)', dark: 'rgb(244, 114, 182)' },
+];
+
+export function getCompareColor(index: number, isDark: boolean): string {
+  const color = COMPARE_COLORS[index % COMPARE_COLORS.length];
+  return isDark ? color.dark : color.light;
+}
+
+// Duplicates and anything past the fourth chain are dropped
+export function parseCompareChains(params: URLSearchParams): string[] {
+  const ids = (params.get(COMPARE_PARAM) ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_CHAINS);
+}
+
+// Write the selection into a copy of `params`
+export function writeCompareChains(params: URLSearchParams, chainIds: string[]): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (chainIds.length) {
+    next.set(COMPARE_PARAM, chainIds.join(','));
+  } else {
+    next.delete(COMPARE_PARAM);
+  }
+  return next;
+}
+
+export function buildCompareUrl(chainIds: string[]): string {
+  if (!chainIds.length) return '/compare';
+  // Keep the commas readable, chain IDs never contain them
+  return `/compare?${COMPARE_PARAM}=${chainIds.map(encodeURIComponent).join(',')}`;
+}
+
+export interface UptimeBucket {
+  label: string;
+  min: number; // Inclusive lower bound in percent
+}
+
+// Highest bucket first, validators without uptime data are counted separately
+export const UPTIME_BUCKETS: UptimeBucket[] = [
+  { label: '≥ 99%', min: 99 },
+  { label: '95 – 99%', min: 95 },
+  { label: '90 – 95%', min: 90 },
+  { label: '< 90%', min: 0 },
+];
+
+/**
+ * Count validators per uptime bucket
+ * @returns One count per UPTIME_BUCKETS entry, then the count without uptime data
+ */
+export function getUptimeDistribution(validators: Validator[]): number[] {
+  const counts = new Array<number>(UPTIME_BUCKETS.length + 1).fill(0);
+
+  validators.forEach(validator => {
+    // The API reports 0 when it has no uptime for the validator
+    if (!validator.uptime) {
+      counts[UPTIME_BUCKETS.length]++;
+      return;
+    }
+    const bucket = UPTIME_BUCKETS.findIndex(({ min }) => validator.uptime >= min);
+    counts[bucket === -1 ? UPTIME_BUCKETS.length - 1 : bucket]++;
+  });
+
+  return counts;
+}
+
+export interface ChainTraffic {
+  sourceId: string;
+  targetId: string;
+  count: number;
+}
+
+/**
+ * Teleporter messages where both ends are among the compared chains
+ * @param messages Source and target as reported by the Teleporter endpoints
+ * @returns Counts per source and target chain ID, aliases of the same chain merged
+ */
+export function getTrafficBetween(
+  messages: { source: string; target: string; count: number }[],
+  resolver: ChainResolver,
+  chainIds: string[]
+): ChainTraffic[] {
+  const selected = new Set(chainIds);
+  const totals = new Map<string, ChainTraffic>();
+
+  messages.forEach(message => {
+    const source = resolver.resolve(message.source);
+    const target = resolver.resolve(message.target);
+    if (!source || !target || !selected.has(source.chainId) || !selected.has(target.chainId)) return;
+
+    const key = `${source.chainId}->${target.chainId}`;
+    const existing = totals.get(key);
+    if (existing) {
+      existing.count += message.count;
+    } else {
+      totals.set(key, { sourceId: source.chainId, targetId: target.chainId, count: message.count });
+    }
+  });
+
+  return Array.from(totals.values());
+}
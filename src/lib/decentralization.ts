@@ -0,0 +1,73 @@
+import { Validator } from '../types';
+
+// Cumulative share of stake held by the smallest `population` share of validators, both 0-1
+export interface LorenzPoint {
+  population: number;
+  stake: number;
+}
+
+export interface DecentralizationMetrics {
+  validatorCount: number;
+  // Fewest validators whose combined weight exceeds a third (can halt) or half (can take over)
+  nakamoto33: number;
+  nakamoto50: number;
+  gini: number; // 0 is perfectly equal, approaching 1 is one validator holding everything
+  hhi: number; // Herfindahl-Hirschman index on the usual 0-10,000 scale
+  topShares: Record<TopN, number>; // Share of weight held by the largest N validators, 0-1
+  lorenz: LorenzPoint[]; // From (0, 0) to (1, 1), smallest validators first
+}
+
+export const TOP_N = [1, 5, 10] as const;
+export type TopN = typeof TOP_N[number];
+
+function nakamoto(descending: number[], total: number, threshold: number): number {
+  let cumulative = 0;
+  for (let i = 0; i < descending.length; i++) {
+    cumulative += descending[i];
+    if (cumulative > total * threshold) return i + 1;
+  }
+  return descending.length;
+}
+
+/**
+ * Concentration metrics for a chain's validator weights
+ * @returns null when the chain has no stake to measure
+ */
+export function getDecentralizationMetrics(validators: Validator[]): DecentralizationMetrics | null {
+  const ascending = validators.map(validator => validator.weight).filter(weight => weight > 0).sort((a, b) => a - b);
+  const total = ascending.reduce((sum, weight) => sum + weight, 0);
+  const count = ascending.length;
+  if (!count || total <= 0) return null;
+
+  const descending = [...ascending].reverse();
+
+  // Gini from the rank-weighted sum of the ascending weights
+  const weightedSum = ascending.reduce((sum, weight, index) => sum + (index + 1) * weight, 0);
+  const gini = (2 * weightedSum) / (count * total) - (count + 1) / count;
+
+  const hhi = ascending.reduce((sum, weight) => sum + (weight / total) ** 2, 0) * 10000;
+
+  const topShare = (n: number) => descending.slice(0, n).reduce((sum, weight) => sum + weight, 0) / total;
+
+  let cumulative = 0;
+  const lorenz: LorenzPoint[] = [{ population: 0, stake: 0 }];
+  ascending.forEach((weight, index) => {
+    cumulative += weight;
+    lorenz.push({ population: (index + 1) / count, stake: cumulative / total });
+  });
+
+  return {
+    validatorCount: count,
+    nakamoto33: nakamoto(descending, total, 1 / 3),
+    nakamoto50: nakamoto(descending, total, 1 / 2),
+    // Rounding can push a single validator slightly below 0
+    gini: Math.max(0, gini),
+    hhi,
+    topShares: {
+      1: topShare(1),
+      5: topShare(5),
+      10: topShare(10),
+    },
+    lorenz,
+  };
+}
@@ -0,0 +1,135 @@
+import { createContext } from 'react';
+import { formatStakeAmount, STAKE_DECIMALS, StakeFormatOptions, stakeToNumber } from './stake';
+
+export type DisplayUnit = 'native' | 'avax' | 'usd';
+
+export const DISPLAY_UNITS: { value: DisplayUnit; label: string }[] = [
+  { value: 'native', label: 'Native' },
+  { value: 'avax', label: 'AVAX' },
+  { value: 'usd', label: 'USD' },
+];
+
+export const DEFAULT_DISPLAY_UNIT: DisplayUnit = 'native';
+
+// USD price per token, keyed by upper-case symbol
+export type TokenPrices = Record<string, number>;
+
+const DISPLAY_UNIT_STORAGE_KEY = 'l1beat-display-unit';
+const AVAX_SYMBOL = 'AVAX';
+
+export function readDisplayUnit(): DisplayUnit {
+  try {
+    const saved = localStorage.getItem(DISPLAY_UNIT_STORAGE_KEY);
+    return DISPLAY_UNITS.some(option => option.value === saved) ? saved as DisplayUnit : DEFAULT_DISPLAY_UNIT;
+  } catch {
+    return DEFAULT_DISPLAY_UNIT;
+  }
+}
+
+export function writeDisplayUnit(unit: DisplayUnit) {
+  try {
+    localStorage.setItem(DISPLAY_UNIT_STORAGE_KEY, unit);
+  } catch {
+    // Private mode, the choice just won't survive a reload
+  }
+}
+
+// How values are shown once the selected unit is applied to a particular token
+export interface UnitScale {
+  unit: DisplayUnit; // Unit actually used, which falls back when a price is missing
+  factor: number; // Multiply the source value by this to get the displayed value
+  symbol: string; // Suffix for token units
+}
+
+function priceOf(prices: TokenPrices, symbol: string | undefined): number | null {
+  const price = symbol ? prices[symbol.toUpperCase()] : undefined;
+  return price !== undefined && price > 0 ? price : null;
+}
+
+/**
+ * Scale for amounts held in a chain's own token
+ * @param symbol The chain's network token, undefined when the API doesn't report one
+ * @returns Native when the selected unit needs a price that isn't available
+ */
+export function getTokenScale(symbol: string | undefined, unit: DisplayUnit, prices: TokenPrices): UnitScale {
+  const native: UnitScale = { unit: 'native', factor: 1, symbol: symbol ?? 'tokens' };
+  const tokenPrice = priceOf(prices, symbol);
+
+  switch (unit) {
+    case 'native':
+      return native;
+    case 'avax': {
+      if (symbol?.toUpperCase() === AVAX_SYMBOL) return { unit, factor: 1, symbol: AVAX_SYMBOL };
+      const avaxPrice = priceOf(prices, AVAX_SYMBOL);
+      return tokenPrice !== null && avaxPrice !== null
+        ? { unit, factor: tokenPrice / avaxPrice, symbol: AVAX_SYMBOL }
+        : native;
+    }
+    case 'usd':
+      return tokenPrice !== null ? { unit, factor: tokenPrice, symbol: '$' } : native;
+  }
+}
+
+/**
+ * Scale for values the API reports in USD, such as TVL
+ * @param symbol Token used for the native unit, network-wide values use AVAX
+ * @returns USD when the selected unit needs a price that isn't available
+ */
+export function getUsdScale(symbol: string | undefined, unit: DisplayUnit, prices: TokenPrices): UnitScale {
+  const target = unit === 'avax' ? AVAX_SYMBOL : symbol ?? AVAX_SYMBOL;
+  const price = unit === 'usd' ? null : priceOf(prices, target);
+
+  return price !== null
+    ? { unit, factor: 1 / price, symbol: target.toUpperCase() }
+    : { unit: 'usd', factor: 1, symbol: '$' };
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function formatNumber(value: number, { compact = false, maximumFractionDigits = 2 }: StakeFormatOptions): string {
+  const key = `${compact}-${maximumFractionDigits}`;
+  let formatter = numberFormats.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat('en-US', {
+      notation: compact ? 'compact' : 'standard',
+      maximumFractionDigits,
+    });
+    numberFormats.set(key, formatter);
+  }
+  return formatter.format(value);
+}
+
+function withUnit(formatted: string, scale: UnitScale): string {
+  return scale.unit === 'usd' ? `$${formatted}` : `${formatted} ${scale.symbol}`;
+}
+
+// An already scaled value, e.g. a chart tick
+export function formatScaled(value: number, scale: UnitScale, options: StakeFormatOptions = {}): string {
+  return withUnit(formatNumber(value, options), scale);
+}
+
+/**
+ * Exact token amounts in native units, converted through a float otherwise
+ * @param decimals Of the chain's network token, see getStakeDecimals
+ */
+export function formatStake(
+  amount: bigint,
+  scale: UnitScale,
+  options: StakeFormatOptions = {},
+  decimals: number = STAKE_DECIMALS
+): string {
+  if (scale.factor === 1 && scale.unit !== 'usd') return withUnit(formatStakeAmount(amount, options, decimals), scale);
+  return formatScaled(stakeToNumber(amount, decimals) * scale.factor, scale, options);
+}
+
+export interface DisplayUnitContextValue {
+  unit: DisplayUnit;
+  setUnit: (unit: DisplayUnit) => void;
+  prices: TokenPrices;
+  isLoadingPrices: boolean;
+  pricesError: unknown;
+  tokenScale: (symbol: string | undefined) => UnitScale;
+  usdScale: (symbol?: string) => UnitScale;
+}
+
+export const DisplayUnitContext = createContext<DisplayUnitContextValue | null>(null);
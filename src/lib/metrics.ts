@@ -0,0 +1,90 @@
+// A value at a point in time, timestamps in milliseconds
+export interface MetricPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface MetricDelta {
+  previous: number;
+  change: number;
+  percent: number | null; // null when the previous value was 0
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Compare a value with the point closest to `windowMs` before the latest point
+ * @param points Series sorted by timestamp, oldest first
+ * @param current Headline value to compare, defaults to the latest point
+ * @returns null when the series has no point within a quarter window of the target time
+ */
+export function computeDelta(points: MetricPoint[], windowMs: number, current?: number): MetricDelta | null {
+  if (points.length < 2) return null;
+
+  const latest = points[points.length - 1];
+  const target = latest.timestamp - windowMs;
+  const tolerance = windowMs / 4;
+
+  let closest: MetricPoint | null = null;
+  for (const point of points) {
+    if (Math.abs(point.timestamp - target) > tolerance) continue;
+    if (!closest || Math.abs(point.timestamp - target) < Math.abs(closest.timestamp - target)) {
+      closest = point;
+    }
+  }
+
+  if (!closest) return null;
+
+  const value = current ?? latest.value;
+  const change = value - closest.value;
+
+  return {
+    previous: closest.value,
+    change,
+    percent: closest.value !== 0 ? (change / closest.value) * 100 : null,
+  };
+}
+
+// Metrics without a history endpoint are sampled locally so deltas show up on later visits
+const SNAPSHOT_STORAGE_KEY = 'l1beat-metric-snapshots';
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const SNAPSHOT_RETENTION_MS = WEEK_MS + DAY_MS;
+
+type SnapshotStore = Record<string, MetricPoint[]>;
+
+function readSnapshots(): SnapshotStore {
+  try {
+    const saved = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : {};
+    return parsed && typeof parsed === 'object' ? parsed as SnapshotStore : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record at most one sample per hour for a metric and return its history
+ * @returns Samples from the last eight days, oldest first, including the current value
+ */
+export function recordSnapshot(metric: string, value: number, now: number = Date.now()): MetricPoint[] {
+  const store = readSnapshots();
+  const history = (store[metric] ?? []).filter(point => now - point.timestamp <= SNAPSHOT_RETENTION_MS);
+  const last = history[history.length - 1];
+  const current = { timestamp: now, value };
+
+  // Within the hour the live value is compared but not stored
+  if (last && now - last.timestamp < SNAPSHOT_INTERVAL_MS) {
+    return [...history, current];
+  }
+
+  history.push(current);
+  store[metric] = history;
+  try {
+    localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage full or disabled, deltas just stay unavailable
+  }
+
+  return history;
+}
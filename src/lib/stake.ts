@@ -0,0 +1,68 @@
+import { Chain, Validator } from '../types';
+
+// P-Chain stake amounts are integers in nano units of the staking token (nAVAX for AVAX).
+// Used when the API doesn't report the token's decimals.
+export const STAKE_DECIMALS = 9;
+
+const groupedInteger = new Intl.NumberFormat('en-US');
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+
+export interface StakeFormatOptions {
+  compact?: boolean; // 1.2M rather than 1,234,567.89
+  maximumFractionDigits?: number;
+}
+
+export function getStakeDecimals(chain: Chain): number {
+  return chain.networkToken?.decimals ?? STAKE_DECIMALS;
+}
+
+export function sumStake(validators: Validator[]): bigint {
+  return validators.reduce((sum, validator) => sum + validator.stake, 0n);
+}
+
+// Ascending order for Array.prototype.sort, bigints can't be subtracted into a number
+export function compareStake(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Whole tokens as a float, for ratios, sorting and charts
+ * @returns Exact up to ~15 significant digits, the integer and fraction parts are converted separately
+ */
+export function stakeToNumber(amount: bigint, decimals: number = STAKE_DECIMALS): number {
+  const unit = 10n ** BigInt(decimals);
+  return Number(amount / unit) + Number(amount % unit) / Number(unit);
+}
+
+// Share of `total`, 0-1. Both amounts are in the same token so the decimals cancel out.
+export function getStakeShare(amount: bigint, total: bigint): number {
+  return total > 0n ? stakeToNumber(amount) / stakeToNumber(total) : 0;
+}
+
+// Plain decimal string of whole tokens with no rounding, e.g. for exports
+export function stakeToDecimalString(amount: bigint, decimals: number = STAKE_DECIMALS): string {
+  const unit = 10n ** BigInt(decimals);
+  const fraction = (amount % unit).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${amount / unit}.${fraction}` : `${amount / unit}`;
+}
+
+/**
+ * Whole tokens for display, rounded half up without going through a float
+ * @param amount In the smallest unit, as returned by the API
+ */
+export function formatStakeAmount(
+  amount: bigint,
+  { compact = false, maximumFractionDigits = 2 }: StakeFormatOptions = {},
+  decimals: number = STAKE_DECIMALS
+): string {
+  if (compact) return compactNumber.format(stakeToNumber(amount, decimals));
+
+  const digits = Math.min(maximumFractionDigits, decimals);
+  const dropped = 10n ** BigInt(decimals - digits);
+  const rounded = (amount + dropped / 2n) / dropped;
+  const scale = 10n ** BigInt(digits);
+  const fraction = (rounded % scale).toString().padStart(digits, '0').replace(/0+$/, '');
+  const whole = groupedInteger.format(rounded / scale);
+
+  return fraction ? `${whole}.${fraction}` : whole;
+}
@@ -0,0 +1,54 @@
+import { Validator } from '../types';
+import { compareStake, getStakeShare, sumStake } from './stake';
+
+// Amounts are exact, in the chain's smallest token unit
+export interface StakeStats {
+  totalStake: bigint;
+  validatorCount: number;
+  averageStake: bigint;
+  medianStake: bigint;
+  largestShare: number; // Share of the biggest validator, 0-1
+}
+
+export function getStakeStats(validators: Validator[]): StakeStats {
+  const stakes = validators.map(validator => validator.stake).sort(compareStake);
+  const totalStake = sumStake(validators);
+  const count = stakes.length;
+  const middle = Math.floor(count / 2);
+
+  return {
+    totalStake,
+    validatorCount: count,
+    averageStake: count ? totalStake / BigInt(count) : 0n,
+    medianStake: count === 0 ? 0n : count % 2 ? stakes[middle] : (stakes[middle - 1] + stakes[middle]) / 2n,
+    largestShare: count ? getStakeShare(stakes[count - 1], totalStake) : 0,
+  };
+}
+
+// Largest stake first, ties broken by NodeID so the order (and colours) are stable across refreshes
+export function sortByStake(validators: Validator[]): Validator[] {
+  return [...validators].sort((a, b) => compareStake(b.stake, a.stake) || a.address.localeCompare(b.address));
+}
+
+export interface StakeRank {
+  rank: number; // 1 is the largest stake
+  share: number; // Share of the chain's total stake, 0-1
+}
+
+/**
+ * Position of a validator when the chain's validators are ordered by stake
+ * @returns null when the NodeID does not validate the chain
+ */
+export function getStakeRank(validators: Validator[], nodeId: string): StakeRank | null {
+  const validator = validators.find(v => v.address === nodeId);
+  if (!validator) return null;
+
+  const totalStake = sumStake(validators);
+  // Validators with the same stake share a rank
+  const rank = validators.filter(v => v.stake > validator.stake).length + 1;
+
+  return {
+    rank,
+    share: getStakeShare(validator.stake, totalStake),
+  };
+}
@@ -0,0 +1,107 @@
+// Rolling statistics over time series sorted by timestamp
+
+export interface SeriesPoint {
+  x: number; // Unix seconds
+  y: number;
+}
+
+export interface Anomaly {
+  timestamp: number;
+  value: number;
+  baseline: number; // Mean of the rolling baseline before this point
+  zScore: number; // Positive for spikes, negative for drops
+}
+
+export interface AnomalyOptions {
+  windowSeconds: number; // Length of the trailing baseline
+  threshold: number; // Minimum absolute z-score to report
+  minSamples?: number; // Points the baseline needs before a z-score means anything
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+export const MOVING_AVERAGE_WINDOWS = [
+  { key: 'ma1h', label: '1h MA', seconds: HOUR },
+  { key: 'ma24h', label: '24h MA', seconds: DAY },
+] as const;
+
+// Shared by the percentile bands and the anomaly baseline
+export const BASELINE_WINDOW_SECONDS = 7 * DAY;
+
+export const Z_SCORE_THRESHOLDS = [2, 2.5, 3, 4];
+export const DEFAULT_Z_SCORE_THRESHOLD = 3;
+
+const DEFAULT_MIN_SAMPLES = 5;
+
+/**
+ * Walk the series with a trailing time window
+ * @param includeCurrent Whether each point's own value is part of its window
+ * @returns For each point, the index range [start, end) of its window
+ */
+function trailingWindows(points: SeriesPoint[], windowSeconds: number, includeCurrent: boolean): [number, number][] {
+  const windows: [number, number][] = [];
+  let start = 0;
+
+  points.forEach((point, index) => {
+    while (start < index && points[start].x <= point.x - windowSeconds) start++;
+    windows.push([start, includeCurrent ? index + 1 : index]);
+  });
+
+  return windows;
+}
+
+// Linear interpolation between closest ranks, `sorted` must be ascending
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function movingAverage(points: SeriesPoint[], windowSeconds: number): SeriesPoint[] {
+  const sums = [0];
+  points.forEach(point => sums.push(sums[sums.length - 1] + point.y));
+
+  return trailingWindows(points, windowSeconds, true).map(([start, end], index) => ({
+    x: points[index].x,
+    y: (sums[end] - sums[start]) / (end - start),
+  }));
+}
+
+export function rollingPercentile(points: SeriesPoint[], windowSeconds: number, p: number): SeriesPoint[] {
+  return trailingWindows(points, windowSeconds, true).map(([start, end], index) => ({
+    x: points[index].x,
+    y: percentile(points.slice(start, end).map(point => point.y).sort((a, b) => a - b), p),
+  }));
+}
+
+/**
+ * Points that deviate from the trailing baseline by at least `threshold` standard deviations
+ * @returns Anomalies in time order. Flat baselines never flag, there is no spread to measure against.
+ */
+export function detectAnomalies(
+  points: SeriesPoint[],
+  { windowSeconds, threshold, minSamples = DEFAULT_MIN_SAMPLES }: AnomalyOptions
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+
+  trailingWindows(points, windowSeconds, false).forEach(([start, end], index) => {
+    const count = end - start;
+    if (count < minSamples) return;
+
+    const baseline = points.slice(start, end);
+    const mean = baseline.reduce((sum, point) => sum + point.y, 0) / count;
+    const variance = baseline.reduce((sum, point) => sum + (point.y - mean) ** 2, 0) / count;
+    const std = Math.sqrt(variance);
+    if (std === 0) return;
+
+    const zScore = (points[index].y - mean) / std;
+    if (Math.abs(zScore) >= threshold) {
+      anomalies.push({ timestamp: points[index].x, value: points[index].y, baseline: mean, zScore });
+    }
+  });
+
+  return anomalies;
+}
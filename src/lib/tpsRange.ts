@@ -0,0 +1,131 @@
+import { differenceInCalendarDays, endOfDay, format, isValid, parse, startOfDay, subDays } from 'date-fns';
+
+export type TpsRangePreset = '24h' | '7d' | '30d' | '90d' | 'custom';
+
+export interface TpsRange {
+  preset: TpsRangePreset;
+  from: string; // yyyy-MM-dd, only used by 'custom'
+  to: string;
+}
+
+export const TPS_RANGE_PRESETS: { value: Exclude<TpsRangePreset, 'custom'>; label: string; days: number }[] = [
+  { value: '24h', label: '24H', days: 1 },
+  { value: '7d', label: '7D', days: 7 },
+  { value: '30d', label: '30D', days: 30 },
+  { value: '90d', label: '90D', days: 90 },
+];
+
+export const DEFAULT_TPS_RANGE: TpsRange = { preset: '7d', from: '', to: '' };
+
+// Longest history a custom range may request
+export const MAX_TPS_HISTORY_DAYS = 365;
+
+// Initial length of a custom range, before the user picks dates
+const DEFAULT_CUSTOM_DAYS = 30;
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const PARAMS = {
+  preset: 'range',
+  from: 'from',
+  to: 'to',
+} as const;
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+export function formatRangeDate(date: Date): string {
+  return format(date, DATE_FORMAT);
+}
+
+// A custom range ending today, used when switching to 'custom'
+export function getDefaultCustomRange(now: Date = new Date()): TpsRange {
+  return {
+    preset: 'custom',
+    from: formatRangeDate(subDays(now, DEFAULT_CUSTOM_DAYS)),
+    to: formatRangeDate(now),
+  };
+}
+
+// Earliest day a custom range can start, the history endpoint serves MAX_TPS_HISTORY_DAYS days up to today
+export function getEarliestRangeDate(now: Date = new Date()): string {
+  return formatRangeDate(subDays(now, MAX_TPS_HISTORY_DAYS - 1));
+}
+
+/**
+ * Custom range with its start moved forward into the window the API can serve
+ * @param from yyyy-MM-dd, these compare correctly as strings
+ * @returns null when a date is missing, the dates are reversed or the range ends before the window
+ */
+export function clampCustomRange(from: string, to: string, now: Date = new Date()): TpsRange | null {
+  const earliest = getEarliestRangeDate(now);
+  const start = from < earliest ? earliest : from;
+  if (!from || !to || start > to) return null;
+  return { preset: 'custom', from: start, to };
+}
+
+// Unknown presets and incomplete, reversed or out of range custom dates fall back to the default
+export function parseTpsRange(params: URLSearchParams, now: Date = new Date()): TpsRange {
+  const preset = params.get(PARAMS.preset);
+
+  if (preset === 'custom') {
+    const from = parseDate(params.get(PARAMS.from));
+    const to = parseDate(params.get(PARAMS.to));
+    const range = from && to ? clampCustomRange(formatRangeDate(from), formatRangeDate(to), now) : null;
+    return range ?? DEFAULT_TPS_RANGE;
+  }
+
+  const match = TPS_RANGE_PRESETS.find(option => option.value === preset);
+  return match ? { ...DEFAULT_TPS_RANGE, preset: match.value } : DEFAULT_TPS_RANGE;
+}
+
+// Write the range into a copy of `params`, the default leaves no parameters behind
+export function writeTpsRange(params: URLSearchParams, range: TpsRange): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach(param => next.delete(param));
+
+  if (range.preset === 'custom') {
+    next.set(PARAMS.preset, range.preset);
+    next.set(PARAMS.from, range.from);
+    next.set(PARAMS.to, range.to);
+  } else if (range.preset !== DEFAULT_TPS_RANGE.preset) {
+    next.set(PARAMS.preset, range.preset);
+  }
+
+  return next;
+}
+
+/**
+ * Number of days of history to request from the API
+ * @returns The preset's length, or enough days to reach back to a custom range's start
+ */
+export function getTpsRangeDays(range: TpsRange, now: Date = new Date()): number {
+  if (range.preset !== 'custom') {
+    return TPS_RANGE_PRESETS.find(option => option.value === range.preset)?.days ?? 7;
+  }
+
+  const from = parseDate(range.from);
+  if (!from) return DEFAULT_CUSTOM_DAYS;
+  const days = differenceInCalendarDays(now, from) + 1;
+  return Math.min(Math.max(days, 1), MAX_TPS_HISTORY_DAYS);
+}
+
+/**
+ * Bounds to trim fetched history to, in unix seconds
+ * @returns null for presets, the API already returns exactly that window
+ */
+export function getTpsRangeBounds(range: TpsRange): [number, number] | null {
+  if (range.preset !== 'custom') return null;
+
+  const from = parseDate(range.from);
+  const to = parseDate(range.to);
+  if (!from || !to) return null;
+  return [startOfDay(from).getTime() / 1000, Math.floor(endOfDay(to).getTime() / 1000)];
+}
+
+export function isSameTpsRange(a: TpsRange, b: TpsRange): boolean {
+  return a.preset === b.preset && (a.preset !== 'custom' || (a.from === b.from && a.to === b.to));
+}
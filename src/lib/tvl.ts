@@ -0,0 +1,90 @@
+import { TVLBreakdown } from '../types';
+
+// Chains drawn individually in the share chart, the rest are grouped as "Other"
+export const TVL_SHARE_TOP_CHAINS = 8;
+
+// Stacked series colours, "Other" is always the grey at the end
+export const TVL_SHARE_COLORS = [
+  { light: 'rgb(59, 130, 246)', dark: 'rgb(96, 165, 250)' },
+  { light: 'rgb(16, 185, 129)', dark: 'rgb(52, 211, 153)' },
+  { light: 'rgb(245, 158, 11)', dark: 'rgb(251, 191, 36)' },
+  { light: 'rgb(236, 72, 153)', dark: 'rgb(244, 114, 182)' },
+  { light: 'rgb(139, 92, 246)', dark: 'rgb(167, 139, 250)' },
+  { light: 'rgb(20, 184, 166)', dark: 'rgb(45, 212, 191)' },
+  { light: 'rgb(239, 68, 68)', dark: 'rgb(248, 113, 113)' },
+  { light: 'rgb(132, 204, 22)', dark: 'rgb(163, 230, 53)' },
+];
+export const TVL_OTHER_COLOR = { light: 'rgb(148, 163, 184)', dark: 'rgb(100, 116, 139)' };
+
+export interface TVLSharePoint {
+  date: number; // Unix seconds
+  tvl: number;
+  share: number; // 0-1 of the day's total
+}
+
+export interface TVLShareSeries {
+  chainId: string | null; // null for the grouped "Other" series
+  points: TVLSharePoint[]; // One per snapshot, 0 on days the chain has no entry
+}
+
+export interface ChainTVLRank {
+  rank: number; // 1 is the largest
+  chainCount: number; // Chains with TVL in the snapshot
+  tvl: number;
+  share: number; // 0-1 of the total
+}
+
+export function getTVLColor(index: number, isDark: boolean): string {
+  const color = TVL_SHARE_COLORS[index % TVL_SHARE_COLORS.length];
+  return isDark ? color.dark : color.light;
+}
+
+/**
+ * Stackable per-chain series for the share chart
+ * @param breakdown Snapshots sorted by date, as returned by the API
+ * @param topCount Chains kept individually, picked by TVL in the latest snapshot
+ * @returns Largest chain first, with an "Other" series last when any chains were grouped
+ */
+export function getTVLShareSeries(breakdown: TVLBreakdown[], topCount: number = TVL_SHARE_TOP_CHAINS): TVLShareSeries[] {
+  const latest = breakdown[breakdown.length - 1];
+  if (!latest) return [];
+
+  const topIds = latest.chains.filter(chain => chain.tvl > 0).slice(0, topCount).map(chain => chain.chainId);
+  const topSet = new Set(topIds);
+  const series: TVLShareSeries[] = topIds.map(chainId => ({ chainId, points: [] }));
+  const other: TVLShareSeries = { chainId: null, points: [] };
+
+  breakdown.forEach(snapshot => {
+    const byChain = new Map(snapshot.chains.map(chain => [chain.chainId, chain.tvl]));
+    const shareOf = (tvl: number) => (snapshot.tvl > 0 ? tvl / snapshot.tvl : 0);
+
+    series.forEach(entry => {
+      const tvl = byChain.get(entry.chainId!) ?? 0;
+      entry.points.push({ date: snapshot.date, tvl, share: shareOf(tvl) });
+    });
+
+    const otherTvl = snapshot.chains
+      .filter(chain => !topSet.has(chain.chainId))
+      .reduce((sum, chain) => sum + chain.tvl, 0);
+    other.points.push({ date: snapshot.date, tvl: otherTvl, share: shareOf(otherTvl) });
+  });
+
+  return other.points.some(point => point.tvl > 0) ? [...series, other] : series;
+}
+
+// Position of a chain in the latest snapshot, null when it holds no TVL there
+export function getChainTVLRank(breakdown: TVLBreakdown[], chainId: string): ChainTVLRank | null {
+  const latest = breakdown[breakdown.length - 1];
+  if (!latest) return null;
+
+  const ranked = latest.chains.filter(chain => chain.tvl > 0);
+  const index = ranked.findIndex(chain => chain.chainId === chainId);
+  if (index === -1) return null;
+
+  return {
+    rank: index + 1,
+    chainCount: ranked.length,
+    tvl: ranked[index].tvl,
+    share: latest.tvl > 0 ? ranked[index].tvl / latest.tvl : 0,
+  };
+}
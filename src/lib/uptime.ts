@@ -0,0 +1,71 @@
+import { Validator } from '../types';
+
+// Avalanche validators below 80% uptime miss their staking rewards
+export const DEFAULT_UPTIME_THRESHOLD = 80;
+export const UPTIME_THRESHOLDS = [80, 90, 95, 99];
+
+export interface UptimeBin {
+  label: string;
+  min: number; // Inclusive lower bound in percent
+  max: number; // Exclusive upper bound, the top bin includes 100
+}
+
+export const UPTIME_HISTOGRAM_BINS: UptimeBin[] = [
+  { label: '< 50%', min: 0, max: 50 },
+  { label: '50–60%', min: 50, max: 60 },
+  { label: '60–70%', min: 60, max: 70 },
+  { label: '70–80%', min: 70, max: 80 },
+  { label: '80–90%', min: 80, max: 90 },
+  { label: '90–95%', min: 90, max: 95 },
+  { label: '95–99%', min: 95, max: 99 },
+  { label: '99–100%', min: 99, max: Infinity },
+];
+
+export interface UptimeStats {
+  reportedCount: number; // Validators with uptime data, the API reports 0 when it has none
+  averageUptime: number | null;
+  weightedUptime: number | null; // Average weighted by stake
+  histogram: number[]; // Count per UPTIME_HISTOGRAM_BINS entry
+  below: Validator[]; // Reporting validators under the threshold, largest stake first
+  stakeAtRisk: number; // Share of the chain's stake held by `below`, 0-1
+}
+
+export function hasUptime(validator: Validator): boolean {
+  return validator.uptime > 0;
+}
+
+// Stake-weighted uptime over the validators that report it, null when none do
+export function getWeightedUptime(validators: Validator[]): number | null {
+  const reporting = validators.filter(hasUptime);
+  const stake = reporting.reduce((sum, validator) => sum + validator.weight, 0);
+  if (!reporting.length) return null;
+  if (stake <= 0) return reporting.reduce((sum, validator) => sum + validator.uptime, 0) / reporting.length;
+  return reporting.reduce((sum, validator) => sum + validator.uptime * validator.weight, 0) / stake;
+}
+
+export function getUptimeStats(validators: Validator[], threshold: number = DEFAULT_UPTIME_THRESHOLD): UptimeStats {
+  const reporting = validators.filter(hasUptime);
+  const totalStake = validators.reduce((sum, validator) => sum + validator.weight, 0);
+
+  const histogram = new Array<number>(UPTIME_HISTOGRAM_BINS.length).fill(0);
+  reporting.forEach(validator => {
+    const bin = UPTIME_HISTOGRAM_BINS.findIndex(({ min, max }) => validator.uptime >= min && validator.uptime < max);
+    if (bin !== -1) histogram[bin]++;
+  });
+
+  const below = reporting
+    .filter(validator => validator.uptime < threshold)
+    .sort((a, b) => b.weight - a.weight);
+  const belowStake = below.reduce((sum, validator) => sum + validator.weight, 0);
+
+  return {
+    reportedCount: reporting.length,
+    averageUptime: reporting.length
+      ? reporting.reduce((sum, validator) => sum + validator.uptime, 0) / reporting.length
+      : null,
+    weightedUptime: getWeightedUptime(validators),
+    histogram,
+    below,
+    stakeAtRisk: totalStake > 0 ? belowStake / totalStake : 0,
+  };
+}
@@ -0,0 +1,157 @@
+import { SortDirection } from './chainFilters';
+import { ChainRegistry, ValidatorMembership } from './chainRegistry';
+import { UnitScale } from './displayUnit';
+
+// One NodeID aggregated over every chain it validates
+export interface ValidatorSummary {
+  nodeId: string;
+  memberships: ValidatorMembership[];
+  activeCount: number;
+  // Whole tokens summed as reported, each chain's stake is in its own token
+  totalStake: number;
+  averageUptime: number | null; // null when no chain reports uptime for the NodeID
+}
+
+export type ValidatorSortKey = 'chains' | 'stake' | 'uptime' | 'nodeId';
+
+export interface ValidatorIndexFilters {
+  search: string;
+  sort: ValidatorSortKey;
+  direction: SortDirection;
+  multiChainOnly: boolean;
+}
+
+export const DEFAULT_VALIDATOR_INDEX_FILTERS: ValidatorIndexFilters = {
+  search: '',
+  sort: 'chains',
+  direction: 'desc',
+  multiChainOnly: false,
+};
+
+const SORT_KEYS: ValidatorSortKey[] = ['chains', 'stake', 'uptime', 'nodeId'];
+
+// Query string parameter for each filter
+const PARAMS = {
+  search: 'q',
+  sort: 'sort',
+  direction: 'dir',
+  multiChainOnly: 'multi',
+} as const;
+
+// NodeIDs read A-Z, metrics read highest first
+export function defaultValidatorDirection(sort: ValidatorSortKey): SortDirection {
+  return sort === 'nodeId' ? 'asc' : 'desc';
+}
+
+export function parseValidatorIndexFilters(params: URLSearchParams): ValidatorIndexFilters {
+  const sortParam = params.get(PARAMS.sort);
+  const sort = SORT_KEYS.includes(sortParam as ValidatorSortKey)
+    ? sortParam as ValidatorSortKey
+    : DEFAULT_VALIDATOR_INDEX_FILTERS.sort;
+  const direction = params.get(PARAMS.direction);
+
+  return {
+    search: params.get(PARAMS.search) ?? DEFAULT_VALIDATOR_INDEX_FILTERS.search,
+    sort,
+    direction: direction === 'asc' || direction === 'desc' ? direction : defaultValidatorDirection(sort),
+    multiChainOnly: params.get(PARAMS.multiChainOnly) === '1',
+  };
+}
+
+// Defaults are left out so shared URLs stay short
+export function writeValidatorIndexFilters(params: URLSearchParams, filters: ValidatorIndexFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | null) => (value ? next.set(key, value) : next.delete(key));
+
+  set(PARAMS.search, filters.search || null);
+  set(PARAMS.sort, filters.sort !== DEFAULT_VALIDATOR_INDEX_FILTERS.sort ? filters.sort : null);
+  set(PARAMS.direction, filters.direction !== defaultValidatorDirection(filters.sort) ? filters.direction : null);
+  set(PARAMS.multiChainOnly, filters.multiChainOnly ? '1' : null);
+
+  return next;
+}
+
+// One summary per NodeID in the registry
+export function buildValidatorIndex(registry: ChainRegistry): ValidatorSummary[] {
+  return registry.nodeIds.map(nodeId => {
+    const memberships = registry.byNodeId(nodeId);
+    // The API reports 0 when it has no uptime for the validator
+    const uptimes = memberships.map(({ validator }) => validator.uptime).filter(uptime => uptime > 0);
+
+    return {
+      nodeId,
+      memberships,
+      activeCount: memberships.filter(({ validator }) => validator.active).length,
+      totalStake: memberships.reduce((sum, { validator }) => sum + validator.weight, 0),
+      averageUptime: uptimes.length ? uptimes.reduce((sum, uptime) => sum + uptime, 0) / uptimes.length : null,
+    };
+  });
+}
+
+/**
+ * A NodeID's stake over all its chains in the selected display unit
+ * @param scaleFor Scale for a chain's network token, from useDisplayUnit
+ * @returns null when the chains' amounts don't end up in one unit, e.g. native amounts of different tokens
+ */
+export function getSummaryStake(
+  summary: ValidatorSummary,
+  scaleFor: (symbol: string | undefined) => UnitScale
+): { value: number; scale: UnitScale } | null {
+  const scales = summary.memberships.map(({ chain }) => scaleFor(chain.networkToken?.symbol));
+  const [first] = scales;
+  if (!first || scales.some(scale => scale.unit !== first.unit || scale.symbol !== first.symbol)) return null;
+
+  return {
+    value: summary.memberships.reduce((sum, { validator }, index) => sum + validator.weight * scales[index].factor, 0),
+    scale: first,
+  };
+}
+
+// The stake column's value, the raw whole-token sum where the chains' units differ
+function getDisplayedStake(summary: ValidatorSummary, scaleFor: (symbol: string | undefined) => UnitScale): number {
+  return getSummaryStake(summary, scaleFor)?.value ?? summary.totalStake;
+}
+
+function compareSummaries(
+  a: ValidatorSummary,
+  b: ValidatorSummary,
+  sort: ValidatorSortKey,
+  stakes: Map<ValidatorSummary, number>
+): number {
+  switch (sort) {
+    case 'chains':
+      return a.memberships.length - b.memberships.length;
+    case 'stake':
+      return (stakes.get(a) ?? 0) - (stakes.get(b) ?? 0);
+    case 'uptime':
+      return (a.averageUptime ?? -1) - (b.averageUptime ?? -1);
+    case 'nodeId':
+      return a.nodeId.localeCompare(b.nodeId);
+  }
+}
+
+/**
+ * Filters and sorts the index as the table shows it
+ * @param scaleFor Scale for a chain's network token, so stake sorts by the values in the selected unit
+ */
+export function applyValidatorIndexFilters(
+  summaries: ValidatorSummary[],
+  filters: ValidatorIndexFilters,
+  scaleFor: (symbol: string | undefined) => UnitScale
+): ValidatorSummary[] {
+  const term = filters.search.trim().toLowerCase();
+  const direction = filters.direction === 'asc' ? 1 : -1;
+
+  const filtered = summaries.filter(summary =>
+    (!filters.multiChainOnly || summary.memberships.length > 1) &&
+    (!term ||
+      summary.nodeId.toLowerCase().includes(term) ||
+      summary.memberships.some(({ chain }) => chain.chainName.toLowerCase().includes(term)))
+  );
+  // Scaled once up front rather than on every comparison
+  const stakes = new Map(
+    filters.sort === 'stake' ? filtered.map(summary => [summary, getDisplayedStake(summary, scaleFor)]) : []
+  );
+
+  return filtered.sort((a, b) => compareSummaries(a, b, filters.sort, stakes) * direction || a.nodeId.localeCompare(b.nodeId));
+}
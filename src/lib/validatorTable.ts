@@ -0,0 +1,74 @@
+import { Validator } from '../types';
+import { SortDirection } from './chainFilters';
+import { compareStake, getStakeShare, STAKE_DECIMALS, stakeToDecimalString } from './stake';
+
+export type ValidatorColumn = 'stake' | 'share' | 'uptime' | 'status';
+export type ValidatorStatusFilter = 'all' | 'active' | 'inactive';
+
+export interface ValidatorTableFilters {
+  search: string;
+  status: ValidatorStatusFilter;
+  uptimeBelow: number | null; // Only validators whose uptime is under this percentage
+  sort: ValidatorColumn;
+  direction: SortDirection;
+}
+
+export const DEFAULT_VALIDATOR_TABLE_FILTERS: ValidatorTableFilters = {
+  search: '',
+  status: 'all',
+  uptimeBelow: null,
+  sort: 'stake',
+  direction: 'desc',
+};
+
+function compareValidators(a: Validator, b: Validator, sort: ValidatorColumn): number {
+  switch (sort) {
+    // Share is stake over the same total, so both sort the same way
+    case 'stake':
+    case 'share':
+      return compareStake(a.stake, b.stake);
+    case 'uptime':
+      return a.uptime - b.uptime;
+    case 'status':
+      return Number(a.active) - Number(b.active);
+  }
+}
+
+export function applyValidatorTableFilters(validators: Validator[], filters: ValidatorTableFilters): Validator[] {
+  const term = filters.search.trim().toLowerCase();
+  const direction = filters.direction === 'asc' ? 1 : -1;
+
+  return validators
+    .filter(validator =>
+      (!term || validator.address.toLowerCase().includes(term)) &&
+      (filters.status === 'all' || validator.active === (filters.status === 'active')) &&
+      // The API reports 0 for unknown uptime, which counts as below any threshold
+      (filters.uptimeBelow === null || validator.uptime < filters.uptimeBelow)
+    )
+    .sort((a, b) =>
+      compareValidators(a, b, filters.sort) * direction ||
+      compareStake(b.stake, a.stake) ||
+      a.address.localeCompare(b.address)
+    );
+}
+
+export function hasActiveValidatorTableFilters(filters: ValidatorTableFilters): boolean {
+  return filters.search !== DEFAULT_VALIDATOR_TABLE_FILTERS.search ||
+    filters.status !== DEFAULT_VALIDATOR_TABLE_FILTERS.status ||
+    filters.uptimeBelow !== DEFAULT_VALIDATOR_TABLE_FILTERS.uptimeBelow;
+}
+
+/**
+ * Flatten validators for CSV and JSON export
+ * @param totalStake The chain's total, so shares match the table rather than the filtered subset
+ * @param decimals Of the chain's network token, see getStakeDecimals
+ */
+export function toValidatorExportRows(validators: Validator[], totalStake: bigint, decimals: number = STAKE_DECIMALS) {
+  return validators.map(validator => ({
+    nodeId: validator.address,
+    status: validator.active ? 'active' : 'inactive',
+    stake: stakeToDecimalString(validator.stake, decimals), // Exact whole tokens, a JSON number would round it
+    sharePercent: Number((getStakeShare(validator.stake, totalStake) * 100).toFixed(4)),
+    uptimePercent: validator.uptime || null,
+  }));
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+// Chain IDs starred by the user, kept in localStorage so they survive reloads
+const WATCHLIST_STORAGE_KEY = 'l1beat-watchlist';
+const WATCHLIST_EXPORT_VERSION = 1;
+
+type WatchlistListener = (chainIds: string[]) => void;
+
+const listeners = new Set<WatchlistListener>();
+const EMPTY_WATCHLIST: string[] = [];
+
+// Accepts the exported file, or a bare array of chain IDs written by hand
+const watchlistFileSchema = z.union([
+  z.object({
+    version: z.number().int().positive().optional(),
+    chains: z.array(z.string()),
+  }).transform(file => file.chains),
+  z.array(z.string()),
+]);
+
+function normalize(chainIds: string[]): string[] {
+  return Array.from(new Set(chainIds.map(chainId => chainId.trim()).filter(Boolean)));
+}
+
+function readStoredWatchlist(): string[] {
+  try {
+    const saved = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+    if (!saved) return EMPTY_WATCHLIST;
+    const parsed = z.array(z.string()).safeParse(JSON.parse(saved));
+    return parsed.success ? normalize(parsed.data) : EMPTY_WATCHLIST;
+  } catch {
+    return EMPTY_WATCHLIST;
+  }
+}
+
+// Cached so useSyncExternalStore gets the same array until the list changes
+let current: string[] | null = null;
+
+export function getWatchlist(): string[] {
+  if (!current) {
+    current = readStoredWatchlist();
+  }
+  return current;
+}
+
+function notify() {
+  const chainIds = getWatchlist();
+  listeners.forEach(listener => listener(chainIds));
+}
+
+export function setWatchlist(chainIds: string[]) {
+  current = normalize(chainIds);
+  try {
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Storage full or disabled, the list still works for this session
+  }
+  notify();
+}
+
+export function toggleWatchlist(chainId: string) {
+  const chainIds = getWatchlist();
+  setWatchlist(chainIds.includes(chainId)
+    ? chainIds.filter(id => id !== chainId)
+    : [...chainIds, chainId]);
+}
+
+export function subscribeToWatchlist(listener: WatchlistListener): () => void {
+  listeners.add(listener);
+
+  // Keep other tabs in sync
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== WATCHLIST_STORAGE_KEY) return;
+    current = null;
+    listener(getWatchlist());
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function serializeWatchlist(chainIds: string[]): string {
+  return JSON.stringify({ version: WATCHLIST_EXPORT_VERSION, chains: chainIds }, null, 2);
+}
+
+/**
+ * Parse an exported watchlist file
+ * @returns The chain IDs, or null when the file is not a watchlist
+ */
+export function parseWatchlist(text: string): string[] | null {
+  try {
+    const parsed = watchlistFileSchema.safeParse(JSON.parse(text));
+    return parsed.success ? normalize(parsed.data) : null;
+  } catch {
+    return null;
+  }
+}
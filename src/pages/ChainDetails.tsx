@@ -1,54 +1,42 @@
-import React, { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
-import { getChains, getTPSHistory } from '../api';
-import { Chain, TPSHistory } from '../types';
-import { Activity, ArrowLeft, Server, Clock, Search, CheckCircle, XCircle, Info, Copy, Check } from 'lucide-react';
-import { StakeDistributionChart, getValidatorColor } from '../components/StakeDistributionChart';
+import { Activity, ArrowLeft, Server, Clock, Info, Copy, Check } from 'lucide-react';
+import { StakeDistributionChart } from '../components/StakeDistributionChart';
+import { ValidatorTable } from '../components/ValidatorTable';
+import { DecentralizationPanel } from '../components/DecentralizationPanel';
+import { UptimePanel } from '../components/UptimePanel';
 import { TPSChart } from '../components/TPSChart';
+import { ChainTVLSection } from '../components/ChainTVLSection';
 import { ThemeToggle } from '../components/ThemeToggle';
+import { DisplayUnitSelect } from '../components/DisplayUnitSelect';
 import { Footer } from '../components/Footer';
-import { useTheme } from '../hooks/useTheme';
+import { useTPSHistory } from '../hooks/useApiQuery';
+import { useTpsRange } from '../hooks/useTpsRange';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from '../components/ErrorIcon';
+import { WatchlistToggle } from '../components/WatchlistToggle';
 
 export function ChainDetails() {
   const { chainId } = useParams();
   const navigate = useNavigate();
-  const [chain, setChain] = useState<Chain | null>(null);
-  const [tpsHistory, setTPSHistory] = useState<TPSHistory[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [showAllValidators, setShowAllValidators] = useState(false);
-  const { theme } = useTheme();
   const [copied, setCopied] = useState<'chainId' | 'subnetId' | 'platformChainId' | null>(null);
+  // Validator picked in the stake chart, highlighted in the table
+  const [highlightedValidator, setHighlightedValidator] = useState<string | null>(null);
+  const { range: tpsRange, setRange: setTpsRange } = useTpsRange();
 
-  useEffect(() => {
-    async function fetchData() {
-      try {
-        setLoading(true);
-        const [chains, history] = await Promise.all([
-          getChains(),
-          chainId ? getTPSHistory(7, chainId) : Promise.resolve([])
-        ]);
-        
-        const foundChain = chains.find(c => c.chainId === chainId);
-        
-        if (foundChain) {
-          setChain(foundChain);
-          setTPSHistory(history);
-          setError(null);
-        } else {
-          setError('Chain not found');
-        }
-      } catch (err) {
-        setError('Failed to load chain details');
-      } finally {
-        setLoading(false);
-      }
-    }
+  const chainsQuery = useChainRegistry();
+  // The TPS chart below reports its own errors, the header just shows N/A
+  const tpsQuery = useTPSHistory(7, chainId);
+
+  const { registry } = chainsQuery;
+  const chain = (chainId && registry.byChainId(chainId)) || null;
+  const tpsHistory = tpsQuery.data ?? [];
+  // Cached chains stay usable when a background refresh fails
+  const error = registry.chains.length ? null : chainsQuery.error;
+  const notFound = !chain && !error;
 
-    fetchData();
-  }, [chainId]);
 
   const handleCopy = async (type: 'chainId' | 'subnetId' | 'platformChainId', value?: string) => {
     if (value) {
@@ -76,17 +64,8 @@ export function ChainDetails() {
     return 'text-red-500 dark:text-red-400';
   };
 
-  const filteredValidators = chain?.validators.filter(validator =>
-    validator.address.toLowerCase().includes(searchTerm.toLowerCase())
-  ) || [];
-
-  const displayedValidators = showAllValidators 
-    ? filteredValidators 
-    : filteredValidators.slice(0, 10);
-
-  const totalStake = chain?.validators.reduce((sum, v) => sum + v.weight, 0) || 0;
 
-  if (loading) {
+  if (chainsQuery.isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
@@ -94,12 +73,17 @@ export function ChainDetails() {
     );
   }
 
-  if (error || !chain) {
+  if (error || notFound || !chain) {
+    const { kind, title, message } = notFound
+      ? { kind: 'unknown' as const, title: 'Chain not found', message: `No chain with ID ${chainId} is tracked by L1Beat.` }
+      : describeApiError(error, 'Failed to load chain details');
+
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center p-4">
         <div className="bg-white dark:bg-dark-800 rounded-lg shadow-lg p-6 max-w-md w-full text-center">
-          <Activity className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">{error}</h2>
+          <ErrorIcon kind={kind} className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{title}</h2>
+          <p className="text-gray-600 dark:text-gray-300 mb-4 break-words">{message}</p>
           <button
             onClick={() => navigate('/')}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -128,7 +112,10 @@ export function ChainDetails() {
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back to Dashboard
             </button>
-            <ThemeToggle />
+            <div className="flex items-center gap-3">
+              <DisplayUnitSelect />
+              <ThemeToggle />
+            </div>
           </div>
 
           <div className="bg-white dark:bg-dark-800 rounded-xl shadow-md overflow-hidden">
@@ -146,7 +133,14 @@ export function ChainDetails() {
                   </div>
                 )}
                 <div>
-                  <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{chain.chainName}</h1>
+                  <div className="flex items-center gap-2">
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{chain.chainName}</h1>
+                    <WatchlistToggle
+                      chainId={chain.chainId}
+                      chainName={chain.chainName}
+                      className="hover:bg-gray-100 dark:hover:bg-dark-700"
+                    />
+                  </div>
                   <div className="flex flex-col gap-1.5 mt-2">
                     <div className="flex items-center gap-2">
                       <p className="text-gray-500 dark:text-gray-400">Chain ID:</p>
@@ -263,118 +257,32 @@ export function ChainDetails() {
             )}
 
             <div className="border-t border-gray-200 dark:border-gray-700 p-6">
-              <TPSChart chainId={chain.chainId} chainName={chain.chainName} />
+              <TPSChart chainId={chain.chainId} chainName={chain.chainName} range={tpsRange} onRangeChange={setTpsRange} />
             </div>
 
             <div className="border-t border-gray-200 dark:border-gray-700 p-6">
-              <StakeDistributionChart validators={chain.validators} />
+              <ChainTVLSection chain={chain} />
             </div>
 
             <div className="border-t border-gray-200 dark:border-gray-700 p-6">
-              <div className="flex justify-between items-center mb-6">
-                <h3 className="font-semibold text-gray-900 dark:text-white">Validators</h3>
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <Search className="h-4 w-4 text-gray-400 dark:text-gray-500" />
-                  </div>
-                  <input
-                    type="text"
-                    placeholder="Search by node ID..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md leading-5 bg-white dark:bg-dark-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                  />
-                </div>
-              </div>
+              <StakeDistributionChart
+                validators={chain.validators}
+                token={chain.networkToken}
+                highlightedValidator={highlightedValidator}
+                onValidatorSelect={setHighlightedValidator}
+              />
+            </div>
 
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                  <thead>
-                    <tr>
-                      <th className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                        Status
-                      </th>
-                      <th className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                        Node ID
-                      </th>
-                      <th className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                        Stake
-                      </th>
-                      <th className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                        Uptime
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white dark:bg-dark-800 divide-y divide-gray-200 dark:divide-gray-700">
-                    {displayedValidators.map((validator, index) => {
-                      const percentage = ((validator.weight / totalStake) * 100).toFixed(2);
-                      return (
-                        <tr key={validator.address} className={index % 2 === 0 ? 'bg-white dark:bg-dark-800' : 'bg-gray-50 dark:bg-dark-800/50'}>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            {validator.active ? (
-                              <div className="flex items-center">
-                                <CheckCircle className="w-4 h-4 text-green-500 dark:text-green-400 mr-2" />
-                                <span className="text-green-800 dark:text-green-300 text-sm">Active</span>
-                              </div>
-                            ) : (
-                              <div className="flex items-center">
-                                <XCircle className="w-4 h-4 text-red-500 dark:text-red-400 mr-2" />
-                                <span className="text-red-800 dark:text-red-300 text-sm">Inactive</span>
-                              </div>
-                            )}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="flex items-center gap-2">
-                              <div 
-                                className="w-3 h-3 rounded-full" 
-                                style={{ 
-                                  backgroundColor: getValidatorColor(index, theme === 'dark', 0.8),
-                                  border: `2px solid ${getValidatorColor(index, theme === 'dark')}` 
-                                }}
-                              />
-                              {validator.explorerUrl ? (
-                                <a
-                                  href={validator.explorerUrl}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
-                                >
-                                  {validator.address}
-                                </a>
-                              ) : (
-                                <span className="text-sm text-gray-900 dark:text-gray-100">{validator.address}</span>
-                              )}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                            {validator.weight.toLocaleString()} tokens ({percentage}%)
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                            {validator.uptime ? `${validator.uptime.toFixed(2)}%` : 'N/A'}
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <DecentralizationPanel validators={chain.validators} />
+            </div>
 
-              {filteredValidators.length > 10 && !showAllValidators && (
-                <div className="mt-4 text-center">
-                  <button
-                    onClick={() => setShowAllValidators(true)}
-                    className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
-                  >
-                    Show All Validators ({filteredValidators.length})
-                  </button>
-                </div>
-              )}
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <UptimePanel chain={chain} />
+            </div>
 
-              {searchTerm && filteredValidators.length === 0 && (
-                <p className="text-center text-gray-500 dark:text-gray-400 mt-4">
-                  No validators found matching "{searchTerm}"
-                </p>
-              )}
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <ValidatorTable chain={chain} highlightedValidator={highlightedValidator} />
             </div>
           </div>
         </div>
@@ -0,0 +1,299 @@
+import { ReactNode, useMemo } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Columns, MessageSquare, Plus, Server, X } from 'lucide-react';
+import { Chain } from '../types';
+import { ThemeToggle } from '../components/ThemeToggle';
+import { DisplayUnitSelect } from '../components/DisplayUnitSelect';
+import { Footer } from '../components/Footer';
+import { CompareTPSChart } from '../components/CompareTPSChart';
+import { CompareUptimeChart } from '../components/CompareUptimeChart';
+import { ErrorIcon } from '../components/ErrorIcon';
+import { useTheme } from '../hooks/useTheme';
+import { useTeleporterMessages } from '../hooks/useApiQuery';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useChainResolver } from '../hooks/useChainResolver';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import {
+  getCompareColor,
+  getTrafficBetween,
+  MAX_COMPARE_CHAINS,
+  parseCompareChains,
+  writeCompareChains,
+} from '../lib/compare';
+import { getStakeStats, StakeStats } from '../lib/stakeStats';
+import { formatStake, UnitScale } from '../lib/displayUnit';
+import { getStakeDecimals } from '../lib/stake';
+import { describeApiError } from '../errors';
+
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+
+interface StatRow {
+  label: string;
+  value: (chain: Chain, stats: StakeStats, scale: UnitScale) => ReactNode;
+}
+
+const STAT_ROWS: StatRow[] = [
+  { label: 'Current TPS', value: chain => (chain.tps ? chain.tps.value.toFixed(2) : 'N/A') },
+  { label: 'Validators', value: (_, stats) => stats.validatorCount.toLocaleString() },
+  { label: 'Active Validators', value: chain => chain.validators.filter(validator => validator.active).length.toLocaleString() },
+  { label: 'Total Stake', value: (chain, stats, scale) => formatStake(stats.totalStake, scale, { compact: true }, getStakeDecimals(chain)) },
+  { label: 'Average Stake', value: (chain, stats, scale) => formatStake(stats.averageStake, scale, { compact: true }, getStakeDecimals(chain)) },
+  { label: 'Median Stake', value: (chain, stats, scale) => formatStake(stats.medianStake, scale, { compact: true }, getStakeDecimals(chain)) },
+  { label: 'Largest Validator', value: (_, stats) => `${(stats.largestShare * 100).toFixed(1)}%` },
+  { label: 'Network Token', value: chain => chain.networkToken?.symbol ?? '—' },
+];
+
+const cardClassName = 'bg-white dark:bg-dark-800 rounded-lg shadow-md p-6';
+
+export function Compare() {
+  const navigate = useNavigate();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const chainsQuery = useChainRegistry();
+  const resolver = useChainResolver();
+  const { tokenScale } = useDisplayUnit();
+  const messagesQuery = useTeleporterMessages({ refreshInterval: REFRESH_INTERVAL });
+
+  const { registry } = chainsQuery;
+  const chainIds = useMemo(() => parseCompareChains(searchParams), [searchParams]);
+
+  const chains = useMemo(
+    () => chainIds.flatMap(chainId => registry.byChainId(chainId) ?? []),
+    [chainIds, registry]
+  );
+  const unknownIds = registry.chains.length
+    ? chainIds.filter(chainId => !registry.byChainId(chainId))
+    : [];
+
+  const stats = useMemo(() => chains.map(chain => getStakeStats(chain.validators)), [chains]);
+
+  const traffic = useMemo(
+    () => getTrafficBetween(messagesQuery.data?.messages ?? [], resolver, chains.map(chain => chain.chainId)),
+    [messagesQuery.data, resolver, chains]
+  );
+
+  const setChainIds = (next: string[]) => {
+    setSearchParams(prev => writeCompareChains(prev, next), { replace: true });
+  };
+
+  // Unknown IDs from the URL don't hold a slot, adding or removing a chain drops them
+  const knownIds = chains.map(chain => chain.chainId);
+
+  const candidates = registry.activeChains
+    .filter(chain => !chainIds.includes(chain.chainId))
+    .sort((a, b) => a.chainName.localeCompare(b.chainName));
+
+  const error = registry.chains.length ? null : chainsQuery.error;
+
+  if (chainsQuery.isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    const { kind, title, message } = describeApiError(error, 'Failed to load chains');
+
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-dark-800 rounded-lg shadow-lg p-6 max-w-md w-full text-center">
+          <ErrorIcon kind={kind} className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{title}</h2>
+          <p className="text-gray-600 dark:text-gray-300 mb-4 break-words">{message}</p>
+          <button
+            onClick={chainsQuery.refetch}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex justify-between items-center mb-6">
+            <button
+              onClick={() => navigate('/')}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </button>
+            <div className="flex items-center gap-3">
+              <DisplayUnitSelect />
+              <ThemeToggle />
+            </div>
+          </div>
+
+          <div className={`${cardClassName} mb-6`}>
+            <div className="flex items-center gap-2 mb-4">
+              <Columns className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Compare Chains</h1>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {chains.length} of {MAX_COMPARE_CHAINS}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {chains.map((chain, index) => (
+                <span
+                  key={chain.chainId}
+                  className="inline-flex items-center gap-2 pl-2 pr-1 py-1 rounded-full border border-gray-200 dark:border-gray-700 text-sm"
+                >
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getCompareColor(index, isDark) }} />
+                  <Link to={`/chain/${chain.chainId}`} className="text-gray-900 dark:text-white hover:underline">
+                    {chain.chainName}
+                  </Link>
+                  <button
+                    onClick={() => setChainIds(knownIds.filter(chainId => chainId !== chain.chainId))}
+                    title={`Remove ${chain.chainName}`}
+                    className="p-0.5 rounded-full text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+
+              {chains.length < MAX_COMPARE_CHAINS && candidates.length > 0 && (
+                <label className="relative inline-flex items-center">
+                  <Plus className="absolute left-2 w-4 h-4 text-gray-400 pointer-events-none" />
+                  <select
+                    aria-label="Add a chain to compare"
+                    value=""
+                    onChange={(e) => setChainIds([...knownIds, e.target.value])}
+                    className="py-1 pl-7 pr-8 border border-gray-300 dark:border-gray-700 rounded-full bg-white dark:bg-gray-900 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="" disabled>Add chain</option>
+                    {candidates.map(chain => (
+                      <option key={chain.chainId} value={chain.chainId}>{chain.chainName}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+
+            {unknownIds.length > 0 && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mt-3">
+                Unknown chain ID{unknownIds.length === 1 ? '' : 's'}: {unknownIds.join(', ')}
+                <button
+                  onClick={() => setChainIds(knownIds)}
+                  className="ml-2 underline hover:text-amber-700 dark:hover:text-amber-300"
+                >
+                  Remove
+                </button>
+              </p>
+            )}
+          </div>
+
+          {chains.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">
+              Pick up to {MAX_COMPARE_CHAINS} chains above, or select them on the dashboard.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className={`${cardClassName} overflow-x-auto`}>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-3 pr-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Metric
+                      </th>
+                      {chains.map((chain, index) => (
+                        <th key={chain.chainId} className="py-3 px-4 text-right font-semibold text-gray-900 dark:text-white">
+                          <span className="inline-flex items-center gap-2">
+                            {chain.chainLogoUri ? (
+                              <img src={chain.chainLogoUri} alt="" className="w-5 h-5 rounded" />
+                            ) : (
+                              <Server className="w-5 h-5 text-blue-500" />
+                            )}
+                            <span style={{ color: getCompareColor(index, isDark) }}>{chain.chainName}</span>
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700/50">
+                    {STAT_ROWS.map(row => (
+                      <tr key={row.label}>
+                        <td className="py-3 pr-4 text-gray-500 dark:text-gray-400">{row.label}</td>
+                        {chains.map((chain, index) => (
+                          <td key={chain.chainId} className="py-3 px-4 text-right font-medium text-gray-900 dark:text-white">
+                            {row.value(chain, stats[index], tokenScale(chain.networkToken?.symbol))}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <CompareTPSChart chains={chains} />
+              <CompareUptimeChart chains={chains} />
+
+              <div className={cardClassName}>
+                <div className="flex items-center gap-2 mb-4">
+                  <MessageSquare className="w-5 h-5 text-blue-500" />
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Teleporter Messages Between These Chains (24h)
+                  </h3>
+                </div>
+
+                {messagesQuery.isLoading ? (
+                  <div className="h-24 rounded bg-gray-100 dark:bg-gray-700/50 animate-pulse" />
+                ) : !messagesQuery.data ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {describeApiError(messagesQuery.error, 'Failed to load Teleporter messages').title}
+                  </p>
+                ) : chains.length < 2 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Add another chain to see traffic between them.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            From \ To
+                          </th>
+                          {chains.map(chain => (
+                            <th key={chain.chainId} className="py-2 px-4 text-right font-medium text-gray-900 dark:text-white">
+                              {chain.chainName}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-700/50">
+                        {chains.map(source => (
+                          <tr key={source.chainId}>
+                            <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{source.chainName}</td>
+                            {chains.map(target => {
+                              const count = traffic.find(
+                                flow => flow.sourceId === source.chainId && flow.targetId === target.chainId
+                              )?.count;
+                              return (
+                                <td key={target.chainId} className="py-2 px-4 text-right text-gray-700 dark:text-gray-300">
+                                  {source.chainId === target.chainId ? '—' : (count ?? 0).toLocaleString()}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
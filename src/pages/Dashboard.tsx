@@ -1,74 +1,63 @@
-import React, { useEffect, useState } from 'react';
-import { getChains, getHealth } from '../api';
-import { Chain, HealthStatus } from '../types';
-import { ChainCard } from '../components/ChainCard';
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Chain } from '../types';
+import { useHealth } from '../hooks/useApiQuery';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { ChainCard, ChainCardSelection } from '../components/ChainCard';
 import { StatusBar } from '../components/StatusBar';
 import { TVLChart } from '../components/TVLChart';
 import { TPSChart } from '../components/TPSChart';
+import { TVLShareChart } from '../components/TVLShareChart';
 import { TeleporterForceDirectedGraph } from '../components/TeleporterForceDirectedGraph';
 import { NetworkTopologyGraph } from '../components/NetworkTopologyGraph';
+import { NetworkOverview } from '../components/NetworkOverview';
+import { DecentralizationLeaderboard } from '../components/DecentralizationLeaderboard';
+import { WatchlistSection } from '../components/WatchlistSection';
 import { Footer } from '../components/Footer';
-import { LayoutGrid, Activity, Network } from 'lucide-react';
+import { describeApiError } from '../errors';
+import { ErrorIcon } from '../components/ErrorIcon';
+import { RefreshIndicator } from '../components/RefreshIndicator';
+import { ChainToolbar } from '../components/ChainToolbar';
+import { ChainTable } from '../components/ChainTable';
+import { useChainFilters } from '../hooks/useChainFilters';
+import { applyChainFilters } from '../lib/chainFilters';
+import { buildCompareUrl, MAX_COMPARE_CHAINS } from '../lib/compare';
+import { LayoutGrid, Activity, Network, Gauge, Columns, X, ShieldCheck } from 'lucide-react';
 import { TeleporterDailyChart } from '../components/TeleporterDailyChart';
 
-export function Dashboard() {
-  const [chains, setChains] = useState<Chain[]>([]);
-  const [health, setHealth] = useState<HealthStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
-
-  async function fetchData() {
-    try {
-      setLoading(true);
-      setError(null);
-      const [chainsData, healthData] = await Promise.all([
-        getChains(),
-        getHealth()
-      ]);
-
-      // Filter chains with at least 1 validator, but always include Avalanche chains
-      const filteredChains = chainsData.filter(chain =>
-        // Include chains with validators
-        (chain.validators && chain.validators.length >= 1) ||
-        // OR include any Avalanche chain regardless of validators
-        chain.chainName.toLowerCase().includes('avalanche') ||
-        chain.chainName.toLowerCase().includes('c-chain')
-      );
-
-      // Sort chains: C-Chain first, then alphabetically
-      const sortedChains = filteredChains.sort((a, b) => {
-        const isAvalancheA = a.chainName.toLowerCase().includes('c-chain');
-        const isAvalancheB = b.chainName.toLowerCase().includes('c-chain');
-
-        if (isAvalancheA && !isAvalancheB) return -1;
-        if (!isAvalancheA && isAvalancheB) return 1;
-        return a.chainName.localeCompare(b.chainName);
-      });
-
-      setChains(sortedChains);
-      setHealth(healthData);
-      setError(null);
-    } catch (err) {
-      setError('Unable to connect to the server. Please try again later.');
-    } finally {
-      setLoading(false);
-      setRetrying(false);
-    }
-  }
-
-  useEffect(() => {
-    fetchData();
-
-    // Refresh health status every 5 minutes (increased from 1 minute)
-    const healthInterval = setInterval(() => {
-      getHealth().then(setHealth).catch(console.error);
-    }, 5 * 60 * 1000);
-
-    return () => clearInterval(healthInterval);
-  }, []);
+const HEALTH_REFRESH_INTERVAL = 5 * 60 * 1000;
 
-  if (loading) {
+export function Dashboard() {
+  const navigate = useNavigate();
+  const chainsQuery = useChainRegistry();
+  // Health is informational only, a failure must not block the dashboard
+  const healthQuery = useHealth({ refreshInterval: HEALTH_REFRESH_INTERVAL });
+  const health = healthQuery.data ?? null;
+
+  const { registry } = chainsQuery;
+
+  // Search, filters and sort live in the query string
+  const { filters, setFilters } = useChainFilters();
+  const chains = useMemo(() => applyChainFilters(registry.chains, filters), [registry, filters]);
+
+  // Chains ticked on the cards for /compare
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const selectionFor = (chain: Chain): ChainCardSelection => {
+    const selected = compareIds.includes(chain.chainId);
+    return {
+      selected,
+      disabled: !selected && compareIds.length >= MAX_COMPARE_CHAINS,
+      onToggle: () => setCompareIds(prev => (
+        prev.includes(chain.chainId) ? prev.filter(id => id !== chain.chainId) : [...prev, chain.chainId]
+      )),
+    };
+  };
+
+  // Once chains are cached a failed refresh keeps the dashboard up
+  const error = registry.chains.length ? null : chainsQuery.error;
+
+  if (chainsQuery.isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-black flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
@@ -77,32 +66,21 @@ export function Dashboard() {
   }
 
   if (error) {
+    const { kind, title, message } = describeApiError(error, 'Unable to connect to the server. Please try again later.');
+
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-black flex items-center justify-center p-4">
         <div className="bg-white dark:bg-gray-900/80 backdrop-blur-sm rounded-lg shadow-lg p-6 max-w-md w-full border border-gray-200 dark:border-gray-800">
           <div className="text-center">
-            <Activity className="h-12 w-12 text-red-500 mx-auto mb-4" />
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Connection Error</h2>
-            <p className="text-gray-600 dark:text-gray-300 mb-6">{error}</p>
+            <ErrorIcon kind={kind} className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{title}</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6 break-words">{message}</p>
             <button
-              onClick={() => {
-                setRetrying(true);
-                fetchData();
-              }}
-              disabled={retrying}
+              onClick={chainsQuery.refetch}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {retrying ? (
-                <>
-                  <Activity className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                  Retrying...
-                </>
-              ) : (
-                <>
-                  <Activity className="-ml-1 mr-2 h-4 w-4" />
-                  Retry Connection
-                </>
-              )}
+              <Activity className="-ml-1 mr-2 h-4 w-4" />
+              Retry Connection
             </button>
           </div>
         </div>
@@ -115,6 +93,42 @@ export function Dashboard() {
       <StatusBar health={health} />
 
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Watchlist Section */}
+        <WatchlistSection selectionFor={selectionFor} />
+
+        {/* Network Overview Section */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Gauge className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Network Overview
+            </h2>
+          </div>
+
+          <NetworkOverview />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+            <TVLChart />
+            <TPSChart />
+          </div>
+
+          <div className="mt-6">
+            <TVLShareChart />
+          </div>
+        </div>
+
+        {/* Decentralisation Leaderboard Section */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <ShieldCheck className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Decentralisation Leaderboard
+            </h2>
+          </div>
+
+          <DecentralizationLeaderboard />
+        </div>
+
         {/* Interchain Messaging Section */}
         <div className="mb-8">
           <div className="flex items-center gap-2 mb-4">
@@ -140,23 +154,77 @@ export function Dashboard() {
         </div>
 
         {/* Active Chains Section */}
-        <div className="mb-8">
+        <div className="mb-4">
           <div className="flex items-center gap-2">
             <LayoutGrid className="w-5 h-5 text-blue-600 dark:text-blue-400" />
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
               Active Chains
             </h2>
+            <RefreshIndicator
+              isRefreshing={chainsQuery.isRefreshing}
+              isStale={chainsQuery.isStale}
+              lastUpdated={chainsQuery.lastUpdated}
+              className="text-gray-500 dark:text-gray-400"
+            />
           </div>
         </div>
 
-        {/* Chain Cards Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {chains.map(chain => (
-            <ChainCard key={chain.chainId} chain={chain} />
-          ))}
-        </div>
+        <ChainToolbar
+          filters={filters}
+          onChange={setFilters}
+          resultCount={chains.length}
+          totalCount={registry.chains.length}
+        />
+
+        {/* Chain Cards Grid or Table */}
+        {chains.length > 0 ? (
+          filters.view === 'table' ? (
+            <ChainTable
+              chains={chains}
+              sort={filters.sort}
+              direction={filters.direction}
+              onSortChange={setFilters}
+            />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {chains.map(chain => (
+                <ChainCard key={chain.chainId} chain={chain} selection={selectionFor(chain)} />
+              ))}
+            </div>
+          )
+        ) : (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-12">
+            {registry.chains.length > 0
+              ? 'No chains match the current filters.'
+              : 'The API did not report any active chains.'}
+          </p>
+        )}
       </main>
 
+      {compareIds.length > 0 && (
+        <div className="sticky bottom-4 z-20 flex justify-center px-4 pointer-events-none">
+          <div className="pointer-events-auto flex items-center gap-3 px-4 py-2 rounded-full shadow-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 text-sm">
+            <span className="text-gray-700 dark:text-gray-200">
+              {compareIds.length} of {MAX_COMPARE_CHAINS} selected
+            </span>
+            <button
+              onClick={() => setCompareIds([])}
+              className="inline-flex items-center gap-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              <X className="w-3.5 h-3.5" />
+              Clear
+            </button>
+            <button
+              onClick={() => navigate(buildCompareUrl(compareIds))}
+              className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Columns className="w-4 h-4" />
+              Compare
+            </button>
+          </div>
+        </div>
+      )}
+
       <Footer />
     </div>
   );
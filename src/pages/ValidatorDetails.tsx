@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Award,
+  Check,
+  CheckCircle,
+  Clock,
+  Copy,
+  ExternalLink,
+  Layers,
+  PieChart,
+  Server,
+  XCircle,
+} from 'lucide-react';
+import { ThemeToggle } from '../components/ThemeToggle';
+import { DisplayUnitSelect } from '../components/DisplayUnitSelect';
+import { Footer } from '../components/Footer';
+import { ErrorIcon } from '../components/ErrorIcon';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { getStakeRank } from '../lib/stakeStats';
+import { formatStake } from '../lib/displayUnit';
+import { getStakeDecimals } from '../lib/stake';
+import { describeApiError } from '../errors';
+
+export function ValidatorDetails() {
+  const { chainId, nodeId } = useParams();
+  const navigate = useNavigate();
+  const [copied, setCopied] = useState(false);
+
+  const chainsQuery = useChainRegistry();
+  const { registry } = chainsQuery;
+  const { tokenScale } = useDisplayUnit();
+  const chain = (chainId && registry.byChainId(chainId)) || null;
+  const validator = chain?.validators.find(v => v.address === nodeId) ?? null;
+  const rank = chain && nodeId ? getStakeRank(chain.validators, nodeId) : null;
+  // Every chain this NodeID validates, including the current one
+  const memberships = nodeId ? registry.byNodeId(nodeId) : [];
+
+  // Cached chains stay usable when a background refresh fails
+  const error = registry.chains.length ? null : chainsQuery.error;
+
+  const handleCopy = async () => {
+    if (!nodeId) return;
+    try {
+      await navigator.clipboard.writeText(nodeId);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  if (chainsQuery.isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !chain || !validator || !rank) {
+    const { kind, title, message } = error
+      ? describeApiError(error, 'Failed to load validator details')
+      : !chain
+        ? { kind: 'unknown' as const, title: 'Chain not found', message: `No chain with ID ${chainId} is tracked by L1Beat.` }
+        : { kind: 'unknown' as const, title: 'Validator not found', message: `${nodeId} does not validate ${chain.chainName}.` };
+
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-dark-800 rounded-lg shadow-lg p-6 max-w-md w-full text-center">
+          <ErrorIcon kind={kind} className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{title}</h2>
+          <p className="text-gray-600 dark:text-gray-300 mb-4 break-words">{message}</p>
+          <button
+            onClick={() => navigate(chain ? `/chain/${chain.chainId}` : '/')}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {chain ? `Back to ${chain.chainName}` : 'Back to Dashboard'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const otherChains = memberships.filter(membership => membership.chain.chainId !== chain.chainId);
+
+  const stats = [
+    {
+      icon: Layers,
+      label: 'Stake',
+      value: formatStake(validator.stake, tokenScale(chain.networkToken?.symbol), {}, getStakeDecimals(chain)),
+    },
+    {
+      icon: PieChart,
+      label: 'Share of Chain Weight',
+      value: `${(rank.share * 100).toFixed(2)}%`,
+    },
+    {
+      icon: Award,
+      label: 'Rank by Stake',
+      value: `#${rank.rank} of ${chain.validators.length}`,
+    },
+    {
+      icon: Clock,
+      label: 'Uptime',
+      value: validator.uptime ? `${validator.uptime.toFixed(2)}%` : 'N/A',
+    },
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex justify-between items-center mb-6">
+            <button
+              onClick={() => navigate(`/chain/${chain.chainId}`)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to {chain.chainName}
+            </button>
+            <div className="flex items-center gap-3">
+              <DisplayUnitSelect />
+              <ThemeToggle />
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-dark-800 rounded-xl shadow-md overflow-hidden">
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex items-start gap-4">
+                <div className="w-16 h-16 rounded-lg bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center flex-shrink-0">
+                  <Server className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Validator on{' '}
+                    <Link to={`/chain/${chain.chainId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      {chain.chainName}
+                    </Link>
+                  </p>
+                  <button
+                    onClick={handleCopy}
+                    className="inline-flex items-center gap-2 mt-1 text-left text-gray-900 dark:text-white hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                    title="Click to copy NodeID"
+                  >
+                    <h1 className="text-xl sm:text-2xl font-bold font-mono break-all">{validator.address}</h1>
+                    {copied ? (
+                      <Check className="w-4 h-4 text-green-500 flex-shrink-0" />
+                    ) : (
+                      <Copy className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    )}
+                  </button>
+                  <div className="flex flex-wrap items-center gap-4 mt-2">
+                    {validator.active ? (
+                      <span className="inline-flex items-center text-sm text-green-800 dark:text-green-300">
+                        <CheckCircle className="w-4 h-4 text-green-500 dark:text-green-400 mr-1.5" />
+                        Active
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center text-sm text-red-800 dark:text-red-300">
+                        <XCircle className="w-4 h-4 text-red-500 dark:text-red-400 mr-1.5" />
+                        Inactive
+                      </span>
+                    )}
+                    {validator.explorerUrl && (
+                      <a
+                        href={validator.explorerUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                      >
+                        View on explorer
+                        <ExternalLink className="w-3.5 h-3.5" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 p-6">
+              {stats.map(({ icon: Icon, label, value }) => (
+                <div key={label} className="bg-gray-50 dark:bg-dark-800/50 rounded-lg p-4">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Icon className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{label}</h3>
+                  </div>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white break-words">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <h3 className="font-semibold text-gray-900 dark:text-white mb-4">
+                Also Validating ({otherChains.length})
+              </h3>
+
+              {otherChains.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr>
+                        {['Chain', 'Status', 'Stake', 'Share', 'Rank', 'Uptime'].map(heading => (
+                          <th
+                            key={heading}
+                            className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white dark:bg-dark-800 divide-y divide-gray-200 dark:divide-gray-700">
+                      {otherChains.map(({ chain: other, validator: membership }) => {
+                        const otherRank = getStakeRank(other.validators, membership.address);
+                        return (
+                          <tr key={other.chainId}>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <Link
+                                to={`/chain/${other.chainId}/validator/${encodeURIComponent(membership.address)}`}
+                                className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                              >
+                                {other.chainLogoUri ? (
+                                  <img src={other.chainLogoUri} alt="" className="w-5 h-5 rounded" />
+                                ) : (
+                                  <Server className="w-5 h-5" />
+                                )}
+                                {other.chainName}
+                              </Link>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              {membership.active ? (
+                                <span className="text-green-800 dark:text-green-300">Active</span>
+                              ) : (
+                                <span className="text-red-800 dark:text-red-300">Inactive</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {formatStake(membership.stake, tokenScale(other.networkToken?.symbol), {}, getStakeDecimals(other))}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {otherRank ? `${(otherRank.share * 100).toFixed(2)}%` : '—'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {otherRank ? `#${otherRank.rank} of ${other.validators.length}` : '—'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {membership.uptime ? `${membership.uptime.toFixed(2)}%` : 'N/A'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  This NodeID does not validate any other tracked chain.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
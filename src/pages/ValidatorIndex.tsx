@@ -0,0 +1,155 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Layers, Search, Server, Users } from 'lucide-react';
+import { ThemeToggle } from '../components/ThemeToggle';
+import { DisplayUnitSelect } from '../components/DisplayUnitSelect';
+import { Footer } from '../components/Footer';
+import { ErrorIcon } from '../components/ErrorIcon';
+import { RefreshIndicator } from '../components/RefreshIndicator';
+import { ValidatorIndexTable } from '../components/ValidatorIndexTable';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useValidatorIndexFilters } from '../hooks/useValidatorIndexFilters';
+import { useDisplayUnit } from '../hooks/useDisplayUnit';
+import { applyValidatorIndexFilters, buildValidatorIndex } from '../lib/validatorIndex';
+import { describeApiError } from '../errors';
+
+export function ValidatorIndex() {
+  const navigate = useNavigate();
+  const chainsQuery = useChainRegistry();
+  const { registry } = chainsQuery;
+  const { filters, setFilters } = useValidatorIndexFilters();
+  const { tokenScale } = useDisplayUnit();
+
+  const index = useMemo(() => buildValidatorIndex(registry), [registry]);
+  const validators = useMemo(
+    () => applyValidatorIndexFilters(index, filters, tokenScale),
+    [index, filters, tokenScale]
+  );
+
+  const multiChainCount = index.filter(summary => summary.memberships.length > 1).length;
+  const maxChains = index.reduce((max, summary) => Math.max(max, summary.memberships.length), 0);
+
+  // Cached chains stay usable when a background refresh fails
+  const error = registry.chains.length ? null : chainsQuery.error;
+
+  if (chainsQuery.isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    const { kind, title, message } = describeApiError(error, 'Failed to load validators');
+
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-dark-800 rounded-lg shadow-lg p-6 max-w-md w-full text-center">
+          <ErrorIcon kind={kind} className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{title}</h2>
+          <p className="text-gray-600 dark:text-gray-300 mb-4 break-words">{message}</p>
+          <button
+            onClick={chainsQuery.refetch}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const tiles = [
+    { icon: Server, label: 'NodeIDs', value: index.length },
+    { icon: Layers, label: 'Validating 2+ L1s', value: multiChainCount },
+    { icon: Users, label: 'Most L1s by one NodeID', value: maxChains },
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex justify-between items-center mb-6">
+            <button
+              onClick={() => navigate('/')}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </button>
+            <div className="flex items-center gap-3">
+              <DisplayUnitSelect />
+              <ThemeToggle />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 mb-4">
+            <Users className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Validators</h1>
+            <RefreshIndicator
+              isRefreshing={chainsQuery.isRefreshing}
+              isStale={chainsQuery.isStale}
+              lastUpdated={chainsQuery.lastUpdated}
+              className="text-gray-500 dark:text-gray-400"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            {tiles.map(({ icon: Icon, label, value }) => (
+              <div key={label} className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <Icon className="w-4 h-4 text-blue-500" />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
+                </div>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+            <div className="relative flex-1">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+              </div>
+              <input
+                type="text"
+                placeholder="Search by NodeID or chain name..."
+                value={filters.search}
+                onChange={(e) => setFilters({ search: e.target.value })}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md leading-5 bg-white dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              <input
+                type="checkbox"
+                checked={filters.multiChainOnly}
+                onChange={(e) => setFilters({ multiChainOnly: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-400 text-blue-600 focus:ring-blue-500"
+              />
+              Only NodeIDs validating 2+ L1s
+            </label>
+          </div>
+
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Showing {validators.length} of {index.length} NodeIDs. Totals marked * add up different tokens, switch the unit to AVAX or USD to compare them.
+          </p>
+
+          {validators.length > 0 ? (
+            <ValidatorIndexTable
+              validators={validators}
+              sort={filters.sort}
+              direction={filters.direction}
+              onSortChange={setFilters}
+            />
+          ) : (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">
+              {index.length > 0 ? 'No validators match the current search.' : 'The API did not report any validators.'}
+            </p>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import type { CacheEntry } from './api';
+
+// Bump whenever a cached response type changes shape, older databases are wiped on upgrade
+const CACHE_SCHEMA_VERSION = 3;
+const DB_NAME = 'l1beat-cache';
+const STORE_NAME = 'entries';
+// Never hold up the first render for long if IndexedDB is slow or blocked
+const OPEN_TIMEOUT_MS = 1000;
+
+interface PersistedEntry {
+  key: string;
+  entry: CacheEntry;
+  expiresAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves to null when IndexedDB is unavailable (private mode, old browsers, blocked upgrade)
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      console.warn('Persistent cache took too long to open, continuing without it');
+      resolve(null);
+    }, OPEN_TIMEOUT_MS);
+
+    const done = (db: IDBDatabase | null) => {
+      clearTimeout(timeoutId);
+      resolve(db);
+    };
+
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, CACHE_SCHEMA_VERSION);
+    } catch (error) {
+      console.warn('Persistent cache unavailable:', error);
+      done(null);
+      return;
+    }
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Entries written by an older schema may not match the current types
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the database
+      db.onversionchange = () => db.close();
+      done(db);
+    };
+
+    request.onerror = () => {
+      console.warn('Persistent cache unavailable:', request.error);
+      done(null);
+    };
+
+    request.onblocked = () => done(null);
+  });
+
+  return dbPromise;
+}
+
+// Read every unexpired entry, dropping the expired ones from the store
+export async function loadPersistedEntries(): Promise<Map<string, CacheEntry>> {
+  const entries = new Map<string, CacheEntry>();
+  const db = await openDatabase();
+  if (!db) return entries;
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const records = await requestToPromise(store.getAll()) as PersistedEntry[];
+    const now = Date.now();
+
+    for (const record of records) {
+      if (record.expiresAt <= now) {
+        store.delete(record.key);
+      } else {
+        entries.set(record.key, record.entry);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read persistent cache:', error);
+  }
+
+  return entries;
+}
+
+// Write an entry that may be restored for `ttl` ms after it was fetched, 0 skips persisting
+export async function persistEntry(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+  if (ttl <= 0) return;
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const record: PersistedEntry = { key, entry, expiresAt: entry.timestamp + ttl };
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(record));
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error);
+  }
+}
@@ -0,0 +1,251 @@
+import { z } from 'zod';
+import type {
+  Chain,
+  TVLHistory,
+  TVLHealth,
+  TVLBreakdown,
+  NetworkTPS,
+  TPSHistory,
+  HealthStatus,
+  TeleporterMessageData,
+  TeleporterDailyData,
+  TokenPrice,
+} from './types';
+import { ApiError, toSchemaIssues } from './errors';
+import { STAKE_DECIMALS, stakeToNumber } from './lib/stake';
+
+const EXPLORER_URL = 'https://subnets.avax.network';
+
+// Backend sends some numeric fields as strings (e.g. nAVAX amounts)
+const numeric = z.union([z.number(), z.string()]).pipe(z.coerce.number().finite());
+
+// Integer amounts in the smallest token unit, kept exact. Anything past 2^53 only survives as a string,
+// and sub-unit fractions cannot exist on-chain so they are dropped.
+const tokenAmount = z.union([
+  z.string().regex(/^\d+(\.\d+)?$/).transform(value => value.split('.')[0]),
+  z.number().nonnegative().finite().transform(value => Math.trunc(value)),
+]).transform(value => BigInt(value));
+
+// Optional strings may arrive as null, the frontend types use undefined
+const optionalString = z.string().nullish().transform(value => value ?? undefined);
+
+// Chains: GET /api/chains
+const rawValidatorSchema = z.object({
+  nodeId: z.string(),
+  validationStatus: z.string().nullish(),
+  uptimePerformance: numeric.nullish(),
+  amountStaked: tokenAmount,
+});
+
+const rawChainSchema = z.object({
+  chainId: z.string(),
+  chainName: z.string(),
+  chainLogoUri: optionalString,
+  description: optionalString,
+  subnetId: optionalString,
+  platformChainId: optionalString,
+  explorerUrl: optionalString,
+  tps: z.object({
+    value: numeric,
+    timestamp: z.number(),
+  }).nullish(),
+  validators: z.array(rawValidatorSchema).nullish(),
+  networkToken: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number().int().nonnegative().nullish(),
+    logoUri: optionalString,
+  }).nullish(),
+});
+
+export const chainsResponseSchema: z.ZodType<Chain[], z.ZodTypeDef, unknown> = z.array(rawChainSchema)
+  .transform(chains => chains.map(chain => {
+    // Stake amounts are in the network token's smallest unit
+    const decimals = chain.networkToken?.decimals ?? STAKE_DECIMALS;
+
+    return {
+      chainId: chain.chainId,
+      chainName: chain.chainName,
+      chainLogoUri: chain.chainLogoUri,
+      description: chain.description,
+      subnetId: chain.subnetId,
+      platformChainId: chain.platformChainId,
+      explorerUrl: chain.explorerUrl,
+      networkToken: chain.networkToken ? { ...chain.networkToken, decimals } : undefined,
+      tps: chain.tps ? {
+        value: chain.tps.value,
+        timestamp: chain.tps.timestamp,
+      } : null,
+      validators: (chain.validators ?? []).map(validator => ({
+        address: validator.nodeId,
+        active: validator.validationStatus === 'active',
+        uptime: validator.uptimePerformance ?? 0,
+        stake: validator.amountStaked,
+        weight: stakeToNumber(validator.amountStaked, decimals),
+        explorerUrl: chain.explorerUrl ? `${EXPLORER_URL}/validators/${validator.nodeId}` : undefined,
+      })),
+    };
+  }));
+
+// TVL: GET /api/tvl/history, GET /api/chains/:chainId/tvl/history and GET /api/tvl/health
+export const tvlHistoryResponseSchema: z.ZodType<TVLHistory[], z.ZodTypeDef, unknown> = z.object({
+  data: z.array(z.object({
+    date: z.number(),
+    tvl: z.number(),
+  })),
+}).transform(response => response.data
+  .map(item => ({ date: item.date, tvl: item.tvl }))
+  .sort((a, b) => a.date - b.date));
+
+// TVL by chain: GET /api/tvl/chains/history
+export const tvlBreakdownResponseSchema: z.ZodType<TVLBreakdown[], z.ZodTypeDef, unknown> = z.object({
+  data: z.array(z.object({
+    date: z.number(),
+    chains: z.array(z.object({
+      chainId: z.string(),
+      tvl: numeric,
+    })),
+  })),
+}).transform(response => response.data
+  .map(item => ({
+    date: item.date,
+    tvl: item.chains.reduce((sum, chain) => sum + chain.tvl, 0),
+    chains: item.chains
+      .map(chain => ({ chainId: chain.chainId, tvl: chain.tvl }))
+      .sort((a, b) => b.tvl - a.tvl),
+  }))
+  .sort((a, b) => a.date - b.date));
+
+export const tvlHealthResponseSchema: z.ZodType<TVLHealth, z.ZodTypeDef, unknown> = z.object({
+  lastUpdate: z.string(),
+  ageInHours: numeric.nullish(),
+  tvl: z.number(),
+  status: z.string().nullish(),
+}).transform(response => ({
+  lastUpdate: response.lastUpdate,
+  ageInHours: response.ageInHours ?? 0,
+  tvl: response.tvl,
+  status: response.status === 'healthy' ? 'healthy' : 'stale',
+}));
+
+// TPS: GET /api/tps/network/history, GET /api/chains/:chainId/tps/history and GET /api/tps/network/latest
+const rawTPSPointSchema = z.object({
+  timestamp: z.number(),
+  value: numeric.optional(),
+  totalTps: numeric.optional(),
+  chainCount: numeric.optional(),
+}).refine(item => item.value !== undefined || item.totalTps !== undefined, {
+  message: 'Expected either value or totalTps',
+  path: ['value'],
+});
+
+export const tpsHistoryResponseSchema: z.ZodType<TPSHistory[], z.ZodTypeDef, unknown> = z.object({
+  success: z.literal(true), // The endpoint reports failures as { success: false, data: [] }
+  data: z.array(rawTPSPointSchema),
+}).transform(response => response.data
+  .map(item => ({
+    timestamp: item.timestamp,
+    totalTps: item.value ?? item.totalTps ?? 0,
+    chainCount: item.chainCount ?? 1,
+    date: item.timestamp,
+  }))
+  .sort((a, b) => a.timestamp - b.timestamp));
+
+export const networkTPSResponseSchema: z.ZodType<NetworkTPS, z.ZodTypeDef, unknown> = z.object({
+  success: z.literal(true),
+  data: z.object({
+    totalTps: numeric,
+    chainCount: numeric,
+    timestamp: numeric.nullish(),
+    lastUpdate: z.string().nullish(),
+    dataAge: numeric.nullish(),
+    dataAgeUnit: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  }),
+}).transform(({ data }) => ({
+  totalTps: data.totalTps,
+  chainCount: data.chainCount,
+  timestamp: data.timestamp ?? Date.now(),
+  lastUpdate: data.lastUpdate ?? new Date().toISOString(),
+  dataAge: data.dataAge ?? 0,
+  dataAgeUnit: data.dataAgeUnit ?? 'minutes',
+  updatedAt: data.updatedAt ?? new Date().toISOString(),
+}));
+
+// Health: GET /health (returns the status directly, not wrapped in a data object)
+export const healthResponseSchema: z.ZodType<HealthStatus, z.ZodTypeDef, unknown> = z.object({
+  status: z.string(),
+  currentTime: z.string().nullish(),
+}).transform(response => ({
+  status: response.status,
+  timestamp: response.currentTime ? new Date(response.currentTime).getTime() : Date.now(),
+}));
+
+// Teleporter: GET /api/teleporter/messages/daily-count and GET /api/teleporter/messages/historical-daily
+export const teleporterMessagesResponseSchema: z.ZodType<TeleporterMessageData, z.ZodTypeDef, unknown> = z.object({
+  messages: z.array(z.object({
+    source: z.string(),
+    target: z.string(),
+    count: numeric,
+  })),
+  metadata: z.object({
+    totalMessages: numeric.nullish(),
+    startDate: z.string().nullish(),
+    endDate: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  }).nullish(),
+}).transform(response => ({
+  messages: response.messages.map(msg => ({
+    source: msg.source,
+    target: msg.target,
+    count: msg.count,
+  })),
+  metadata: {
+    totalMessages: response.metadata?.totalMessages ||
+      response.messages.reduce((sum, msg) => sum + msg.count, 0),
+    startDate: response.metadata?.startDate || new Date().toISOString(),
+    endDate: response.metadata?.endDate || new Date().toISOString(),
+    updatedAt: response.metadata?.updatedAt || new Date().toISOString(),
+  },
+}));
+
+export const teleporterDailyHistoryResponseSchema: z.ZodType<TeleporterDailyData[], z.ZodTypeDef, unknown> = z.object({
+  data: z.array(z.object({
+    date: z.string(),
+    dateString: z.string(),
+    data: z.array(z.object({
+      sourceChain: z.string(),
+      destinationChain: z.string(),
+      messageCount: numeric,
+    })),
+    totalMessages: numeric,
+    timeWindow: numeric,
+  })),
+}).transform(response => response.data);
+
+// Prices: GET /api/prices?symbols=, or any price source answering in the same shape
+export const tokenPricesResponseSchema: z.ZodType<TokenPrice[], z.ZodTypeDef, unknown> = z.object({
+  data: z.array(z.object({
+    symbol: z.string(),
+    usd: numeric.nullish(),
+  })),
+}).transform(response => response.data
+  .filter(item => item.usd != null && item.usd > 0)
+  .map(item => ({ symbol: item.symbol.toUpperCase(), usd: item.usd! })));
+
+// Parse a raw response against its endpoint schema, reporting every field that failed
+export function parseResponse<T>(
+  endpoint: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown
+): T {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issues = toSchemaIssues(result.error.issues);
+    console.error(`Schema mismatch on ${endpoint}:`, issues);
+    throw new ApiError(endpoint, { kind: 'schema', issues });
+  }
+
+  return result.data;
+}
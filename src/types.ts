@@ -14,6 +14,7 @@ export interface Chain {
   networkToken?: {
     name: string;
     symbol: string;
+    decimals: number; // Denomination of the chain's stake amounts
     logoUri?: string;
   };
   explorerUrl?: string;
@@ -23,7 +24,8 @@ export interface Validator {
   address: string;
   active: boolean;
   uptime: number;
-  weight: number;
+  stake: bigint; // Exact amount in the smallest unit of the staking token, see getStakeDecimals
+  weight: number; // The same stake in whole tokens as a float, for ratios and charts
   explorerUrl?: string;
 }
 
@@ -33,6 +35,18 @@ export interface TVLHistory {
   tvl: number;
 }
 
+export interface ChainTVL {
+  chainId: string;
+  tvl: number;
+}
+
+// One daily snapshot of TVL split by chain
+export interface TVLBreakdown {
+  date: number;
+  tvl: number; // Sum over chains
+  chains: ChainTVL[]; // Largest first
+}
+
 export interface TVLHealth {
   lastUpdate: string;
   ageInHours: number;
@@ -40,6 +54,12 @@ export interface TVLHealth {
   status: 'healthy' | 'stale';
 }
 
+// USD price of a token, GET /api/prices or the configured price source
+export interface TokenPrice {
+  symbol: string;
+  usd: number;
+}
+
 // TPS related types
 export interface NetworkTPS {
   totalTps: number;